@@ -1,4 +1,3 @@
-import { useState } from 'react'
 import './App.css'
 import { EditForm } from './components/EditForm'
 import { EditEntryType } from './components/EditForm'
@@ -0,0 +1,33 @@
+import React from 'react';
+
+interface DraftBannerProps {
+  savedAt: number;
+  onRestore: () => void;
+  onDiscard: () => void;
+}
+
+// Offers to bring back the changes of a previous visit that were never submitted
+export const DraftBanner: React.FC<DraftBannerProps> = ({ savedAt, onRestore, onDiscard }) => (
+  <div role="alert" className="mt-6 flex flex-wrap items-center justify-between gap-3 rounded-md border border-indigo-200 dark:border-indigo-800 bg-indigo-50 dark:bg-indigo-950 px-4 py-3">
+    <div className="text-sm">
+      <p className="font-medium text-indigo-800 dark:text-indigo-200">Restore unsaved changes?</p>
+      <p className="text-indigo-700 dark:text-indigo-300">Saved on {new Date(savedAt).toLocaleString()}</p>
+    </div>
+    <div className="flex">
+      <button
+        type="button"
+        onClick={onDiscard}
+        className="rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 py-2 px-3 text-sm font-medium text-gray-700 dark:text-gray-300 shadow-sm hover:bg-gray-50 dark:hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2"
+      >
+        Discard
+      </button>
+      <button
+        type="button"
+        onClick={onRestore}
+        className="ml-3 rounded-md border border-transparent bg-indigo-600 dark:bg-indigo-700 py-2 px-3 text-sm font-medium text-white shadow-sm hover:bg-indigo-700 dark:hover:bg-indigo-800 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2"
+      >
+        Restore
+      </button>
+    </div>
+  </div>
+);
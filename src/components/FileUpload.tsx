@@ -1,40 +1,205 @@
-import React, { useState, useRef, ChangeEvent } from 'react';
+import React, { useContext, useEffect, useRef, useState, ChangeEvent } from 'react';
+import toast from 'react-hot-toast';
+import { StoredFile, StoredFileState } from '../data/common';
+import type { StorageAdapter } from '../services/storage';
+import { useStorage } from '../context/StorageContext';
+import { UploadsContext, useUploads } from './useUploads';
+import { UploadProgress } from './UploadProgress';
+import { classNames } from './fields/shared';
+
+type ListedFile = File | StoredFile;
 
 // Define props interface for FileUpload component
 interface FileUploadProps {
   fieldDisplayName: string;
   fieldName: string;
-  initialFiles: any[];
+  files?: ListedFile[]; // The files when the parent keeps them, like the form does with the value of the field
+  initialFiles?: StoredFile[]; // The files already stored, when the parent doesn't keep the files
   entityId: string | null;
   supportedFileTypes: string;
-  uponFileChange: (files: File[]) => void;
+  // Called with the whole list when a file is uploaded, removed or moved. Removed stored files stay in it as Deleted
+  uponFileChange: (files: ListedFile[]) => void;
+  storage?: StorageAdapter; // Where the files are uploaded, the one of StorageProvider by default
   isMultiple?: boolean;
+  maxFiles?: number; // Files over the limit are refused when they are picked or dropped
   fieldDisplaySubName?: string;
+  isInvalid?: boolean;
+  prepareFile?: (file: File) => Promise<File>; // Changes the picked files before they are uploaded, e.g. scales images down
+}
+
+// Stored files come from the entity or from a restored draft, they only have their metadata
+function fileLabel(file: ListedFile): string {
+  return file instanceof File
+    ? `${file.name} (${Math.round(file.size / 1024)} KB)`
+    : `${file.file_name} (${Math.round(file.file_size / 1024)} KB)`;
 }
 
-export const FileUpload: React.FC<FileUploadProps> = ({ 
-  fieldDisplayName, 
-  fieldName, 
-  initialFiles = [], 
-  entityId, 
-  supportedFileTypes, 
-  uponFileChange, 
-  isMultiple = false, 
-  fieldDisplaySubName
+const isDeleted = (file: ListedFile) => !(file instanceof File) && file.state === StoredFileState.Deleted;
+
+// Stored files are marked as deleted so their storage can be cleaned, picked ones just leave the list
+const withoutFile = (file: ListedFile): ListedFile[] =>
+  file instanceof File ? [] : [new StoredFile({ ...file, state: StoredFileState.Deleted })];
+
+// The accept attribute of file inputs isn't applied to dropped files, they are checked the same way here
+function isAccepted(file: File, accept: string): boolean {
+  const types = accept.split(',').map((type) => type.trim().toLowerCase()).filter(Boolean);
+  const fileName = file.name.toLowerCase();
+  const fileType = file.type.toLowerCase();
+  return !types.length || types.some((type) => type.startsWith('.')
+    ? fileName.endsWith(type)
+    : type.endsWith('/*') ? fileType.startsWith(type.slice(0, -1)) : fileType === type);
+}
+
+function fileType(file: ListedFile): { contentType: string; extension: string } {
+  const fileName = file instanceof File ? file.name : file.file_name;
+  const dot = fileName.lastIndexOf('.');
+  return {
+    contentType: file instanceof File ? file.type : file.content_type,
+    extension: dot > 0 ? fileName.slice(dot + 1).toLowerCase() : '',
+  };
+}
+
+// Stored images are previewed, the picked ones are not uploaded yet and have no url
+function previewUrl(file: ListedFile): string | null {
+  if (file instanceof File || !file.file_path) return null;
+  const { contentType, extension } = fileType(file);
+  return contentType.startsWith('image/') || /^(jpe?g|png|gif|webp|avif)$/.test(extension) ? file.file_path : null;
+}
+
+// Outline paths of the icons of the file kinds
+const FILE_ICONS = {
+  video: "M15 10l4.553-2.276A1 1 0 0121 8.618v6.764a1 1 0 01-1.447.894L15 14M5 18h8a2 2 0 002-2V8a2 2 0 00-2-2H5a2 2 0 00-2 2v8a2 2 0 002 2z",
+  audio: "M9 19V6l12-3v13M9 19c0 1.105-1.343 2-3 2s-3-.895-3-2 1.343-2 3-2 3 .895 3 2zm12-3c0 1.105-1.343 2-3 2s-3-.895-3-2 1.343-2 3-2 3 .895 3 2zM9 10l12-3",
+  archive: "M5 8h14M5 8a2 2 0 110-4h14a2 2 0 110 4M5 8v10a2 2 0 002 2h10a2 2 0 002-2V8m-9 4h4",
+  document: "M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z",
+};
+
+function fileIcon(file: ListedFile): string {
+  const { contentType, extension } = fileType(file);
+  if (contentType.startsWith('video/')) return FILE_ICONS.video;
+  if (contentType.startsWith('audio/')) return FILE_ICONS.audio;
+  if (/^(zip|rar|7z|tar|gz)$/.test(extension)) return FILE_ICONS.archive;
+  return FILE_ICONS.document;
+}
+
+const FilePreview: React.FC<{ file: ListedFile }> = ({ file }) => {
+  const url = previewUrl(file);
+  if (url) return <img src={url} alt="" className="h-12 w-12 flex-none rounded object-cover bg-gray-100 dark:bg-gray-700" />;
+  return (
+    <span className="flex h-12 w-12 flex-none flex-col items-center justify-center rounded bg-gray-100 dark:bg-gray-700 text-gray-500 dark:text-gray-400">
+      <svg className="h-6 w-6" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d={fileIcon(file)} />
+      </svg>
+      <span className="text-[10px] font-semibold uppercase leading-tight">{fileType(file).extension.slice(0, 4)}</span>
+    </span>
+  );
+};
+
+export const FileUpload: React.FC<FileUploadProps> = ({
+  fieldDisplayName,
+  fieldName,
+  files,
+  initialFiles = [],
+  entityId,
+  supportedFileTypes,
+  uponFileChange,
+  isMultiple = false,
+  maxFiles,
+  fieldDisplaySubName,
+  isInvalid = false,
+  storage,
+  prepareFile
 }) => {
-  const [files, setFiles] = useState<File[]>(initialFiles);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const contextStorage = useStorage();
+  // Inside a form the uploads are the form's, so its submit waits for them. A storage prop uploads on its own
+  const formUploads = useContext(UploadsContext);
+  const ownUploads = useUploads(storage ?? contextStorage, entityId ?? "");
+  const uploads = formUploads && !storage ? formUploads : ownUploads;
+  const [ownFiles, setOwnFiles] = useState<ListedFile[]>(initialFiles);
+  const [isDragOver, setIsDragOver] = useState<boolean>(false);
+  const [draggedFile, setDraggedFile] = useState<number | null>(null);
+
+  const currentFiles = files ?? ownFiles;
+  // The uploads finish later, they are added to the latest list instead of the one of this render
+  const latestFiles = useRef<ListedFile[]>(currentFiles);
+  useEffect(() => {
+    latestFiles.current = currentFiles;
+  }, [currentFiles]);
+
+  /*
+   * Picked files are prepared before their upload starts. The ref counts them for the picks made before the
+   * next render, the state shows them in the count
+   */
+  const preparing = useRef<number>(0);
+  const [preparingCount, setPreparingCount] = useState<number>(0);
+  const changePreparing = (change: number) => {
+    preparing.current += change;
+    setPreparingCount(preparing.current);
+  };
+
+  // The files being prepared, uploaded or waiting for a retry count against the limit too
+  const pendingCount = uploads.uploads.filter((upload) => upload.fieldName === fieldName).length;
+  const addedCount = currentFiles.filter((file) => !isDeleted(file)).length + pendingCount;
+  const fileCount = addedCount + preparingCount;
+  const isFull = maxFiles !== undefined && isMultiple && fileCount >= maxFiles;
+
+  const changeFiles = (nextFiles: ListedFile[]) => {
+    latestFiles.current = nextFiles;
+    setOwnFiles(nextFiles);
+    uponFileChange(nextFiles);
+  };
+
+  const removeFile = (index: number) =>
+    changeFiles(latestFiles.current.flatMap((file, i) => (i === index ? withoutFile(file) : [file])));
+
+  const moveFile = (from: number, to: number) => {
+    if (from === to) return;
+    const movedFiles = [...latestFiles.current];
+    movedFiles.splice(to, 0, movedFiles.splice(from, 1)[0]);
+    changeFiles(movedFiles);
+  };
+
+  // A single file replaces the previous one, several files are added after the ones listed
+  const addUploadedFile = (storedFile: StoredFile) => changeFiles(isMultiple
+    ? [...latestFiles.current, storedFile]
+    : [...latestFiles.current.flatMap(withoutFile), storedFile]);
+
+  const addFiles = (fileArray: File[]) => {
+    let picked = fileArray.filter((file) => isAccepted(file, supportedFileTypes));
+    if (picked.length < fileArray.length) {
+      toast.error(`Only ${supportedFileTypes.split(",").join(", ")} files can be added.`);
+    }
+    if (!isMultiple) picked = picked.slice(0, 1);
+    const count = addedCount + preparing.current;
+    if (isMultiple && maxFiles !== undefined && picked.length > maxFiles - count) {
+      const room = Math.max(0, maxFiles - count);
+      toast.error(room
+        ? `Only ${room} more ${room === 1 ? "file" : "files"} can be added, the limit is ${maxFiles}.`
+        : `No more files can be added, the limit is ${maxFiles}.`);
+      picked = picked.slice(0, room);
+    }
+
+    // The failed uploads can be retried, the others are added as they finish
+    if (picked.length) changePreparing(picked.length);
+    picked.forEach((file) => (prepareFile ? prepareFile(file) : Promise.resolve(file)).then(
+      (preparedFile) => {
+        changePreparing(-1);
+        uploads.start(fieldName, preparedFile, addUploadedFile);
+      },
+      (error) => {
+        changePreparing(-1);
+        console.log(error);
+        toast.error(`Could not read "${file.name}". Please pick another file.`);
+      }
+    ));
+  };
 
   const handleFileChange = (e: ChangeEvent<HTMLInputElement>) => {
     const selectedFiles = e.target.files;
     if (selectedFiles && selectedFiles.length > 0) {
-      const fileArray: File[] = [];
-      for (let i = 0; i < selectedFiles.length; i++) {
-        fileArray.push(selectedFiles[i]);
-      }
-
-      setFiles(fileArray);
-      uponFileChange(fileArray);
+      addFiles(Array.from(selectedFiles));
+      e.target.value = "";
     }
   };
 
@@ -44,33 +209,102 @@ export const FileUpload: React.FC<FileUploadProps> = ({
     }
   };
 
+  // Only files dragged from outside are dropped here, the listed ones are dragged to be reordered
+  const isFileDrag = (event: React.DragEvent) => event.dataTransfer.types.includes("Files");
+
   return (
-    <div className="file-upload">
-      <div className="flex items-center">
-        <button 
-          type="button" 
-          className="rounded-md border border-gray-300 bg-white py-2 px-3 text-sm font-medium text-gray-700 shadow-sm hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2"
+    // Files are dropped anywhere on the field, the list included
+    <div
+      className="file-upload"
+      onDragOver={(event) => {
+        if (!isFileDrag(event)) return;
+        // Without preventDefault the browser would open the dropped file in place of the form
+        event.preventDefault();
+        event.dataTransfer.dropEffect = isFull ? "none" : "copy";
+        setIsDragOver(!isFull);
+      }}
+      onDragLeave={(event) => {
+        if (!event.currentTarget.contains(event.relatedTarget as Node | null)) setIsDragOver(false);
+      }}
+      onDrop={(event) => {
+        if (!isFileDrag(event)) return;
+        event.preventDefault();
+        setIsDragOver(false);
+        if (isFull) {
+          toast.error(`No more files can be added, the limit is ${maxFiles}.`);
+          return;
+        }
+        addFiles(Array.from(event.dataTransfer.files));
+      }}
+    >
+      <div
+        className={classNames(
+          "flex flex-wrap items-center gap-3 rounded-md border-2 border-dashed p-4",
+          isDragOver ? "border-indigo-500 bg-indigo-50 dark:bg-indigo-950" : "border-gray-300 dark:border-gray-600",
+          isInvalid && !isDragOver && "border-red-500 dark:border-red-400",
+        )}
+      >
+        <button
+          type="button"
+          className="rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 py-2 px-3 text-sm font-medium text-gray-700 dark:text-gray-300 shadow-sm hover:bg-gray-50 dark:hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 disabled:opacity-50"
           onClick={handleButtonClick}
+          disabled={isFull}
+          aria-invalid={isInvalid}
         >
           {fieldDisplayName}
           {fieldDisplaySubName && (
-            <span className="block text-xs text-gray-500">{fieldDisplaySubName}</span>
+            <span className="block text-xs text-gray-500 dark:text-gray-400">{fieldDisplaySubName}</span>
           )}
         </button>
-        <div className="ml-3">
-          {files.length > 0 ? (
-            <ul className="list-disc pl-5">
-              {files.map((file, index) => (
-                <li key={index} className="text-sm text-gray-600">
-                  {file.name} ({Math.round(file.size / 1024)} KB)
-                </li>
-              ))}
-            </ul>
-          ) : (
-            <span className="text-sm text-gray-500">No files selected</span>
-          )}
-        </div>
+        <span className="text-sm text-gray-500 dark:text-gray-400">
+          {isFull ? "Remove a file to add another one." : "or drag and drop " + (isMultiple ? "files" : "a file") + " here"}
+          {isMultiple && maxFiles !== undefined && ` (${fileCount} of ${maxFiles})`}
+        </span>
       </div>
+
+      {currentFiles.some((file) => !isDeleted(file)) ? (
+        <ul className="mt-3 space-y-2 max-w-xl">
+          {currentFiles.map((file, index) => !isDeleted(file) && (
+            <li
+              key={file instanceof File ? file.name + index : file.id || index}
+              draggable={isMultiple}
+              onDragStart={(event) => {
+                event.dataTransfer.effectAllowed = "move";
+                setDraggedFile(index);
+              }}
+              onDragOver={(event) => {
+                if (draggedFile !== null) event.preventDefault();
+              }}
+              onDrop={(event) => {
+                if (draggedFile === null) return;
+                event.preventDefault();
+                moveFile(draggedFile, index);
+                setDraggedFile(null);
+              }}
+              onDragEnd={() => setDraggedFile(null)}
+              className={classNames(
+                "flex items-center gap-3 rounded-md border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 p-2",
+                isMultiple && "cursor-grab",
+                draggedFile === index && "opacity-50",
+              )}
+            >
+              <FilePreview file={file} />
+              <span className="flex-1 truncate text-sm text-gray-600 dark:text-gray-300">{fileLabel(file)}</span>
+              <button
+                type="button"
+                onClick={() => removeFile(index)}
+                aria-label={"Remove " + (file instanceof File ? file.name : file.file_name)}
+                className="rounded px-2 text-lg leading-none text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="mt-2 text-sm text-gray-500 dark:text-gray-400">No files selected</p>
+      )}
+      <UploadProgress fieldName={fieldName} uploads={uploads} />
       <input
         type="file"
         ref={fileInputRef}
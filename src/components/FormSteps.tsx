@@ -0,0 +1,115 @@
+import React from 'react';
+import { EditEntryType, type EditEntry, type Entity } from '../data/editEntry';
+import { classNames } from './fields/shared';
+import { getFieldType } from './fields';
+import { displayValue } from '../utils/displayValue';
+import type { EditFormStep, FormStepsState } from './useFormSteps';
+
+interface StepProgressProps {
+  steps: EditFormStep[];
+  formSteps: FormStepsState;
+}
+
+// Numbered list of the steps and the review, the completed ones can be clicked to go back to them
+export const StepProgress: React.FC<StepProgressProps> = ({ steps, formSteps }) => {
+  const titles = [...steps.map((step) => step.title), "Review"];
+
+  return (
+    <nav aria-label="Progress" className="mt-6">
+      <ol className="flex flex-wrap items-center gap-y-2">
+        {titles.map((title, index) => {
+          if (formSteps.isStepSkipped(index)) return null;
+          const isCurrent = index === formSteps.currentStep;
+          const isCompleted = formSteps.completedSteps.includes(index);
+          return (
+            <li key={title + index} className="flex items-center">
+              {index > 0 && <span className="mx-2 h-px w-6 bg-gray-300 dark:bg-gray-600" aria-hidden="true" />}
+              <button
+                type="button"
+                onClick={() => formSteps.goTo(index)}
+                disabled={!formSteps.canGoTo(index)}
+                aria-current={isCurrent ? "step" : undefined}
+                className="flex items-center text-sm font-medium disabled:cursor-not-allowed"
+              >
+                <span className={classNames(
+                  "flex h-7 w-7 items-center justify-center rounded-full border-2",
+                  isCurrent && "border-indigo-600 text-indigo-600 dark:border-indigo-400 dark:text-indigo-400",
+                  !isCurrent && isCompleted && "border-indigo-600 bg-indigo-600 text-white dark:border-indigo-700 dark:bg-indigo-700",
+                  !isCurrent && !isCompleted && "border-gray-300 text-gray-500 dark:border-gray-600 dark:text-gray-400"
+                )}>
+                  {!isCurrent && isCompleted ? "✓" : index + 1}
+                </span>
+                <span className={classNames(
+                  "ml-2",
+                  isCurrent ? "text-indigo-600 dark:text-indigo-400" : "text-gray-700 dark:text-gray-300"
+                )}>
+                  {title}
+                </span>
+              </button>
+            </li>
+          );
+        })}
+      </ol>
+    </nav>
+  );
+};
+
+// Short text for a value in the review, formatted by its field type so it reads like what the user entered
+function summarizeValue(editEntry: EditEntry, value: unknown): string {
+  if (value === undefined || value === null || value === "") return "—";
+  if (editEntry.type === EditEntryType.Photo || editEntry.type === EditEntryType.ProfilePhoto) return "Photo added";
+  if (editEntry.type === EditEntryType.Signature) return "Signed";
+  const format = getFieldType(editEntry.type || EditEntryType.Text)?.format;
+  return displayValue(editEntry, format ? format(value, editEntry) : value);
+}
+
+interface ReviewStepProps {
+  steps: EditFormStep[];
+  formSteps: FormStepsState;
+  visibleEntries: EditEntry[];
+  values: Entity;
+}
+
+// Last page of the wizard, it shows what is about to be submitted with a link back to each step
+export const ReviewStep: React.FC<ReviewStepProps> = ({ steps, formSteps, visibleEntries, values }) => {
+  const shownAttributes = new Set<string>();
+
+  return (
+    <div className="col-span-6 space-y-6">
+      {steps.map((step, index) => {
+        const isLastStep = index === steps.length - 1;
+        // Entries not listed in any step are shown with the last one
+        const entries = visibleEntries.filter((editEntry) =>
+          (step.attributes.includes(editEntry.attribute) || isLastStep) && !shownAttributes.has(editEntry.attribute)
+        );
+        entries.forEach((editEntry) => shownAttributes.add(editEntry.attribute));
+        if (!entries.length) return null;
+
+        return (
+          <section key={step.title + index}>
+            <div className="flex items-center justify-between">
+              <h4 className="text-lg font-medium leading-6 text-gray-900 dark:text-gray-100">{step.title}</h4>
+              <button
+                type="button"
+                onClick={() => formSteps.goTo(index)}
+                className="text-sm font-medium text-indigo-600 dark:text-indigo-400 hover:text-indigo-500"
+              >
+                Edit
+              </button>
+            </div>
+            <dl className="mt-2 divide-y divide-gray-200 dark:divide-gray-700">
+              {entries.map((editEntry) => (
+                <div key={editEntry.attribute} className="py-2 sm:grid sm:grid-cols-3 sm:gap-4">
+                  <dt className="text-sm font-medium text-gray-700 dark:text-gray-300">{editEntry.attributeName}</dt>
+                  <dd className="mt-1 text-sm text-gray-900 dark:text-gray-100 sm:col-span-2 sm:mt-0 break-words">
+                    {summarizeValue(editEntry, values[editEntry.attribute])}
+                  </dd>
+                </div>
+              ))}
+            </dl>
+          </section>
+        );
+      })}
+    </div>
+  );
+};
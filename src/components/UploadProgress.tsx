@@ -0,0 +1,61 @@
+import React, { useContext } from 'react';
+import { StoredFileState } from '../data/common';
+import { UploadsContext, type UploadsState } from './useUploads';
+
+const uploadButtonClassName = "rounded px-2 py-1 text-xs font-medium text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-indigo-500";
+
+interface UploadProgressProps {
+  fieldName: string;
+  // The uploads of the form by default
+  uploads?: UploadsState | null;
+}
+
+// Progress of the files of a field being uploaded, with a cancel button, and the failed ones with a retry button
+export const UploadProgress: React.FC<UploadProgressProps> = ({ fieldName, uploads }) => {
+  const formUploads = useContext(UploadsContext);
+  const tracker = uploads ?? formUploads;
+  const fieldUploads = tracker ? tracker.uploads.filter((upload) => upload.fieldName === fieldName) : [];
+  if (!tracker || !fieldUploads.length) return null;
+
+  return (
+    <ul className="my-2 space-y-2 max-w-xl">
+      {fieldUploads.map((upload) => (
+        <li key={upload.id} className="text-sm">
+          <div className="flex items-center justify-between">
+            <span className="truncate text-gray-700 dark:text-gray-300">{upload.fileName}</span>
+            {upload.state === StoredFileState.Failed ? (
+              <span className="flex flex-none items-center">
+                <button type="button" className={uploadButtonClassName} onClick={() => tracker.retry(upload.id)}>
+                  Retry
+                </button>
+                <button type="button" className={uploadButtonClassName} onClick={() => tracker.dismiss(upload.id)}>
+                  Dismiss
+                </button>
+              </span>
+            ) : (
+              <button type="button" className={uploadButtonClassName} onClick={() => tracker.cancel(upload.id)}>
+                Cancel
+              </button>
+            )}
+          </div>
+          {upload.state === StoredFileState.Failed ? (
+            <p className="text-red-500 dark:text-red-400" role="alert">
+              Upload failed: {upload.error}
+            </p>
+          ) : (
+            <div
+              role="progressbar"
+              aria-label={`Uploading ${upload.fileName}`}
+              aria-valuemin={0}
+              aria-valuemax={100}
+              aria-valuenow={Math.round(upload.progress)}
+              className="mt-1 h-1.5 overflow-hidden rounded-full bg-gray-200 dark:bg-gray-700"
+            >
+              <div className="h-full bg-indigo-600 transition-all" style={{ width: `${upload.progress}%` }} />
+            </div>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+};
@@ -0,0 +1,198 @@
+import React from 'react';
+import { FieldErrors, SectionHeader } from './FieldLabel';
+import { classNames, inputClassName, invalidProps } from './shared';
+import type { FieldRenderProps, FieldTypeDefinition } from './registry';
+import type { EditEntry, Entity } from '../../data/editEntry';
+import {
+  addressFormat, countryCode, COUNTRIES, DEFAULT_COUNTRY, matchRegion, type AddressFormat, type AddressPart,
+} from '../../data/addressFormats';
+
+const ADDRESS_PARTS = ["street_address", "city", "province", "country", "postal_code"];
+
+const AUTOCOMPLETE: Record<AddressPart, string> = {
+  street_address: "street-address",
+  city: "address-level2",
+  province: "address-level1",
+  postal_code: "postal-code",
+};
+
+// Countries sorted by name for the country select
+const COUNTRY_OPTIONS = Object.entries(COUNTRIES).sort(([, a], [, b]) => a.localeCompare(b));
+
+function partId(editEntry: EditEntry, part: string): string {
+  return editEntry.attribute + "_" + part;
+}
+
+function textPart(address: Entity, part: string): string {
+  return typeof address[part] === 'string' ? address[part].trim() : "";
+}
+
+/*
+ * Code of the country of the address, the default one when it has no country yet. A country missing from the
+ * list (a territory, a typo) has no code: it keeps its name and the layout of DEFAULT_ADDRESS_FORMAT
+ */
+function addressCountryCode(address: Entity): string | undefined {
+  return textPart(address, 'country') ? countryCode(address.country) : DEFAULT_COUNTRY;
+}
+
+/*
+ * Errors of each part of the address for the rules of its country. An empty address only has errors
+ * when the field is required
+ */
+function addressErrors(address: Entity, editEntry: EditEntry): Partial<Record<AddressPart, string>> {
+  const format = addressFormat(addressCountryCode(address));
+  const errors: Partial<Record<AddressPart, string>> = {};
+  const isFilled = format.parts.some((part) => textPart(address, part));
+  if (!isFilled && !editEntry.isRequired) return errors;
+
+  for (const part of format.parts) {
+    const label = format.labels[part];
+    const value = textPart(address, part);
+    if (!value) {
+      if (format.required.includes(part)) errors[part] = `${label} is required.`;
+    } else if (part === 'postal_code' && format.postalCodePattern && !format.postalCodePattern.test(value)) {
+      errors[part] = `Please enter a valid ${label}, like ${format.postalCodeExample}.`;
+    }
+  }
+  return errors;
+}
+
+interface AddressPartInputProps {
+  editEntry: EditEntry;
+  part: AddressPart;
+  format: AddressFormat;
+  value: string;
+  errors: string[];
+  onChange: (value: string) => void;
+}
+
+// A part of the address: a select when the country has a fixed list of regions, a text input otherwise
+const AddressPartInput: React.FC<AddressPartInputProps> = ({ editEntry, part, format, value, errors, onChange }) => {
+  const isRegionList = part === 'province' && !!format.regions;
+  // A region saved by its code or in another case is shown selected in the list
+  const region = isRegionList ? matchRegion(value, format) : value;
+  return (
+    <div className={part === 'street_address' ? "col-span-6" : "col-span-6 sm:col-span-3"}>
+      <label htmlFor={partId(editEntry, part)} className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+        {format.labels[part] + (format.required.includes(part) ? "*" : "")}
+      </label>
+      <div className="my-2">
+        {isRegionList ? (
+          <select
+            id={partId(editEntry, part)}
+            name={partId(editEntry, part)}
+            autoComplete={AUTOCOMPLETE[part]}
+            value={region}
+            onChange={(event) => onChange(event.target.value)}
+            className={inputClassName}
+            {...invalidProps(editEntry.attribute, errors)}
+          >
+            <option value="">Choose...</option>
+            {/* We keep a value that isn't in the list (free text saved before the lists), it stays valid */}
+            {region && !format.regions!.includes(region) && <option value={region}>{region}</option>}
+            {format.regions!.map((region) => (
+              <option key={region} value={region}>{region}</option>
+            ))}
+          </select>
+        ) : (
+          <input
+            type="text"
+            id={partId(editEntry, part)}
+            name={partId(editEntry, part)}
+            autoComplete={AUTOCOMPLETE[part]}
+            value={value}
+            onChange={(event) => onChange(event.target.value)}
+            className={classNames(inputClassName, part === 'postal_code' && !!format.postalCodePattern && "uppercase")}
+            placeholder={part === 'postal_code' ? format.postalCodeExample : undefined}
+            {...invalidProps(editEntry.attribute, errors)}
+          />
+        )}
+      </div>
+    </div>
+  );
+};
+
+const AddressField: React.FC<FieldRenderProps> = ({ editEntry, entity, setFieldValue, errors, isValidating, onBlur }) => {
+  const address = ((entity && entity[editEntry.attribute]) || {}) as Entity;
+  const code = addressCountryCode(address);
+  const format = addressFormat(code);
+  // Parts are marked invalid once the errors of the field are shown
+  const partErrors = errors.length ? addressErrors(address, editEntry) : {};
+
+  const setPart = (part: string, value: string) =>
+    setFieldValue(editEntry.attribute, { ...address, [part]: value });
+
+  // A region picked in the list of another country doesn't belong to the new one
+  const setCountry = (nextCode: string) => {
+    const nextFormat = addressFormat(nextCode);
+    const region = matchRegion(textPart(address, 'province'), nextFormat);
+    const keepsRegion = !nextFormat.regions || nextFormat.regions.includes(region);
+    setFieldValue(editEntry.attribute, {
+      ...address,
+      country: COUNTRIES[nextCode],
+      province: keepsRegion && nextFormat.parts.includes('province') ? region : "",
+    });
+  };
+
+  return (
+    <div className="col-span-6" onBlur={onBlur}>
+      <SectionHeader title={editEntry.attributeName} subName={editEntry.subName} />
+      <div className="mt-6 grid grid-cols-1 gap-y-6 gap-x-4 sm:grid-cols-6">
+        <div className="col-span-6 sm:col-span-3">
+          <label htmlFor={partId(editEntry, "country")} className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+            Country*
+          </label>
+          <div className="my-2">
+            <select
+              id={partId(editEntry, "country")}
+              name={partId(editEntry, "country")}
+              autoComplete="country"
+              value={code ?? textPart(address, 'country')}
+              onChange={(event) => COUNTRIES[event.target.value] && setCountry(event.target.value)}
+              className={inputClassName}
+            >
+              {/* We keep a country that isn't in the list, it is submitted as it was saved */}
+              {!code && <option value={textPart(address, 'country')}>{textPart(address, 'country')}</option>}
+              {COUNTRY_OPTIONS.map(([optionCode, name]) => (
+                <option key={optionCode} value={optionCode}>{name}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+        {format.parts.map((part) => (
+          <AddressPartInput
+            key={part}
+            editEntry={editEntry}
+            part={part}
+            format={format}
+            value={typeof address[part] === 'string' ? address[part] : ""}
+            errors={partErrors[part] ? errors : []}
+            onChange={(value) => setPart(part, value)}
+          />
+        ))}
+      </div>
+      <FieldErrors attribute={editEntry.attribute} errors={errors} isValidating={isValidating} />
+    </div>
+  );
+};
+
+export const addressField: FieldTypeDefinition = {
+  render: AddressField,
+  // Every part is submitted, the country by its name (unknown ones as they are), and the parts the country doesn't use are emptied
+  format: (value) => {
+    const address: Entity = { ...(value as Entity) };
+    const code = addressCountryCode(address);
+    const format = addressFormat(code);
+    for (const part of ADDRESS_PARTS) {
+      address[part] = typeof address[part] === 'string' ? address[part].trim() : "";
+      if (part !== 'country' && !format.parts.includes(part as AddressPart)) address[part] = "";
+    }
+    if (code) address["country"] = COUNTRIES[code];
+    // Codes and other cases of a region are submitted as the region of the list
+    address["province"] = matchRegion(textPart(address, 'province'), format);
+    if (format.postalCodePattern) address["postal_code"] = textPart(address, 'postal_code').toUpperCase();
+    return address;
+  },
+  validate: (value, editEntry) => Object.values(addressErrors(value as Entity, editEntry)),
+};
+
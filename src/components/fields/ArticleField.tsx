@@ -0,0 +1,199 @@
+import React, { useRef } from 'react';
+import { FieldErrors, SectionHeader } from './FieldLabel';
+import { changePhotoButtonClassName, inputClassName, invalidProps, pickPhoto } from './shared';
+import type { FieldRenderProps, FieldTypeDefinition } from './registry';
+import type { Entity } from '../../data/editEntry';
+import { MarkdownEditor } from './MarkdownEditor';
+import { sanitizeMarkdown } from '../../utils/markdown';
+
+// The article value. Its content is Markdown, or its lines when edited as plain text
+interface Article {
+  title?: string;
+  subtitle?: string;
+  content?: string | string[];
+  button_text?: string;
+  button_link?: string;
+  image_url?: string;
+}
+
+// Rich-text content is one Markdown text. Contents saved as lines by the plain editor become its paragraphs
+function markdownContent(content: unknown): string {
+  if (Array.isArray(content)) return content.join("\n\n");
+  return typeof content === "string" ? content : "";
+}
+
+const ArticleField: React.FC<FieldRenderProps> = ({ editEntry, entity, setFieldValue, uploadPhoto, errors, isValidating, onBlur }) => {
+  const shadowFileInput = useRef<HTMLInputElement>(null);
+  const article = entity ? entity[editEntry.attribute] as Article | undefined : undefined;
+  const photoUrl = article && article["image_url"];
+  const setSubField = (subField: string, value: string) =>
+    setFieldValue(editEntry.attribute, { ...article, [subField]: value });
+  // The upload finishes later, so the photo is added to the latest article instead of this one
+  const uploadArticlePhoto = (file: File) => uploadPhoto(editEntry.attribute + "_image_url", file, (filePath) =>
+    setFieldValue(editEntry.attribute, (values) => ({ ...values[editEntry.attribute] as Article, image_url: filePath })));
+
+  return (
+    <div className="col-span-6" onBlur={onBlur}>
+      <SectionHeader title={editEntry.attributeName} subName={editEntry.subName} />
+      <label htmlFor={editEntry.attribute + "_title"} className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+        Title
+      </label>
+      <div className="my-2">
+        <input
+          id={editEntry.attribute + "_title"}
+          name={editEntry.attribute + "_title"}
+          type="text"
+          value={article && article["title"] ? article["title"] : ""}
+          onChange={(event) => setSubField("title", event.target.value)}
+          className={inputClassName}
+          {...invalidProps(editEntry.attribute, errors)}
+        />
+      </div>
+      <label htmlFor={editEntry.attribute + "_subtitle"} className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+        Subtitle
+      </label>
+      <div className="my-2">
+        <input
+          id={editEntry.attribute + "_subtitle"}
+          name={editEntry.attribute + "_subtitle"}
+          type="text"
+          value={article && article["subtitle"] ? article["subtitle"] : ""}
+          onChange={(event) => setSubField("subtitle", event.target.value)}
+          className={inputClassName}
+        />
+      </div>
+      <label htmlFor={editEntry.attribute + "_content"} className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+        Content
+      </label>
+      <div className="my-2">
+        {editEntry.richText ? (
+          <MarkdownEditor
+            id={editEntry.attribute + "_content"}
+            value={markdownContent(article && article["content"])}
+            onChange={(update) => setFieldValue(editEntry.attribute, (values) => {
+              const currArticle = (values[editEntry.attribute] || {}) as Article;
+              return { ...currArticle, content: typeof update === 'function' ? update(markdownContent(currArticle["content"])) : update };
+            })}
+            uploadImage={(file, onUploaded) => uploadPhoto(editEntry.attribute + "_content_image", file, onUploaded)}
+            ariaProps={invalidProps(editEntry.attribute, errors)}
+          />
+        ) : (
+          <textarea
+            id={editEntry.attribute + "_content"}
+            name={editEntry.attribute + "_content"}
+            rows={10}
+            className={inputClassName}
+            value={article && article["content"] ? (typeof article["content"] === "string" ? article["content"] : article["content"].join("\n")) : ""}
+            onChange={(event) => setSubField("content", event.target.value)}
+            {...invalidProps(editEntry.attribute, errors)}
+          />
+        )}
+      </div>
+      {
+        editEntry.button && (
+          <div className="grid grid-cols-1 gap-y-6 gap-x-4 sm:grid-cols-6">
+            <div className="col-span-6 sm:col-span-3">
+              <label htmlFor={editEntry.attribute + "_button_text"} className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                Button Text
+              </label>
+              <div className="my-2">
+                <input
+                  id={editEntry.attribute + "_button_text"}
+                  name={editEntry.attribute + "_button_text"}
+                  type="text"
+                  placeholder="Etsy Shop"
+                  value={article && article["button_text"] !== undefined ? article["button_text"] : editEntry.button}
+                  onChange={(event) => setSubField("button_text", event.target.value)}
+                  className={inputClassName}
+                />
+              </div>
+            </div>
+
+            <div className="col-span-6 sm:col-span-3">
+              <label htmlFor={editEntry.attribute + "_button_link"} className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                Button URL
+              </label>
+              <div className="my-2">
+                <input
+                  id={editEntry.attribute + "_button_link"}
+                  name={editEntry.attribute + "_button_link"}
+                  type="text"
+                  placeholder="https://www.example.com"
+                  value={article && article["button_link"] ? article["button_link"] : ""}
+                  onChange={(event) => setSubField("button_link", event.target.value)}
+                  className={inputClassName}
+                />
+              </div>
+            </div>
+          </div>
+        )
+      }
+      <label htmlFor={editEntry.attribute + "_image_url"} className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+        Attached Photo
+      </label>
+      <div className="my-2 flex items-center">
+        <span className="h-20 aspect-video overflow-hidden bg-gray-300 dark:bg-gray-600">
+          {photoUrl && <img src={photoUrl} alt="" className="object-cover aspect-video" />}
+        </span>
+        <button
+          type="button"
+          onClick={() => shadowFileInput.current?.click()}
+          className={"ml-5 " + changePhotoButtonClassName}
+        >
+          Change
+        </button>
+        <input
+          id={editEntry.attribute + "_image_url"}
+          type="file"
+          accept=".jpg,.png"
+          onChange={(event) => pickPhoto(event, uploadArticlePhoto)}
+          ref={shadowFileInput}
+          style={{ display: 'none' }}
+        />
+      </div>
+      <FieldErrors attribute={editEntry.attribute} errors={errors} isValidating={isValidating} />
+    </div>
+  );
+};
+
+export const articleField: FieldTypeDefinition = {
+  render: ArticleField,
+  format: (value, editEntry) => {
+    const article: Entity = { ...(value as Entity) };
+    // The button text starts with the one of the entry
+    if (editEntry.button && article["button_text"] === undefined) {
+      article["button_text"] = editEntry.button;
+    }
+    // The content is edited as text and stored as a list of its non empty lines, or as sanitized Markdown
+    const content = article["content"];
+    if (editEntry.richText) {
+      article["content"] = content ? sanitizeMarkdown(markdownContent(content)) : content;
+    } else if (typeof content === "string") {
+      article["content"] = content ? content.split("\n").filter(e => !!e) : content;
+    }
+
+    // An article left completely empty is stored as an empty object
+    const fields = ["title", "content", "image_url", "subtitle", "button_link"];
+    if (fields.every((field) => !article[field])) {
+      return {};
+    }
+    return article;
+  },
+  validate: (value, editEntry) => {
+    const article = (value || {}) as Entity;
+
+    const filledCount = [
+      article["title"], article["content"], article["image_url"],
+      article["subtitle"], article["button_link"]
+    ].filter(e => e).length;
+
+    const mandatoryFilledCount = [
+      article["title"], article["content"], article["image_url"]
+    ].filter(e => e).length;
+
+    if (filledCount > 0 && mandatoryFilledCount < 3) {
+      return ["Title, Content, and Photo are required for " + editEntry.attributeName + "."];
+    }
+    return [];
+  },
+};
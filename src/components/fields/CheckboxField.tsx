@@ -0,0 +1,35 @@
+import React from 'react';
+import { FieldErrors } from './FieldLabel';
+import { invalidProps } from './shared';
+import type { FieldRenderProps, FieldTypeDefinition } from './registry';
+
+const CheckboxField: React.FC<FieldRenderProps> = ({ editEntry, entity, setFieldValue, errors, isValidating, onBlur }) => (
+  <div className="col-span-6 relative flex items-start" onBlur={onBlur}>
+    <div className="flex h-5 items-center">
+      <input
+        type="checkbox"
+        id={editEntry.attribute}
+        name={editEntry.attribute}
+        checked={Boolean(entity && entity[editEntry.attribute])}
+        onChange={(event) => setFieldValue(editEntry.attribute, event.target.checked)}
+        {...invalidProps(editEntry.attribute, errors)}
+        className="h-4 w-4 rounded border-gray-300 dark:border-gray-600 text-indigo-600 focus:ring-indigo-500"
+      />
+    </div>
+    <div className="ml-2 text-sm">
+      <label htmlFor={editEntry.attribute} className="font-medium text-gray-700 dark:text-gray-300">
+        {editEntry.attributeName}
+      </label>
+      <p className="text-gray-500 dark:text-gray-400">
+        {editEntry.subName}
+      </p>
+      <FieldErrors attribute={editEntry.attribute} errors={errors} isValidating={isValidating} />
+    </div>
+  </div>
+);
+
+export const checkboxField: FieldTypeDefinition = {
+  render: CheckboxField,
+  // A checkbox never touched is submitted as unchecked
+  format: (value) => Boolean(value),
+};
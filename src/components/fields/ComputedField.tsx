@@ -0,0 +1,32 @@
+import React from 'react';
+import { FieldErrors, FieldLabel } from './FieldLabel';
+import { classNames, inputClassName, invalidProps } from './shared';
+import type { FieldRenderProps, FieldTypeDefinition } from './registry';
+import { displayValue } from '../../utils/displayValue';
+
+// Read-only field of the entries with a compute option, their value follows the fields they read
+const ComputedField: React.FC<FieldRenderProps> = ({ editEntry, entity, requiredMark, errors, isValidating }) => {
+  const value = entity && entity[editEntry.attribute];
+
+  return (
+    <div className="col-span-6 sm:col-span-3">
+      <FieldLabel editEntry={editEntry} requiredMark={requiredMark} />
+      <div className="my-2">
+        <output
+          id={editEntry.attribute}
+          aria-live="polite"
+          tabIndex={errors.length ? -1 : undefined}
+          className={classNames(inputClassName, "block min-h-[2.25rem] border bg-gray-50 dark:bg-gray-800 px-3 py-2 text-gray-700 dark:text-gray-300")}
+          {...invalidProps(editEntry.attribute, errors)}
+        >
+          {displayValue(editEntry, value)}
+        </output>
+      </div>
+      <FieldErrors attribute={editEntry.attribute} errors={errors} isValidating={isValidating} />
+    </div>
+  );
+};
+
+export const computedField: FieldTypeDefinition = {
+  render: ComputedField,
+};
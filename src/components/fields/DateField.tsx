@@ -0,0 +1,179 @@
+import React from 'react';
+import { FieldErrors, FieldLabel } from './FieldLabel';
+import { inputClassName, invalidProps } from './shared';
+import type { FieldRenderProps, FieldTypeDefinition } from './registry';
+import type { EditEntry } from '../../data/editEntry';
+import { isEmpty } from '../../utils/validation';
+import {
+  browserTimeZone, dateConstraintErrors, inputBound, isIsoDate, isoToWallTime, toIsoDate, toIsoDateTime, wallTimeToIso,
+} from '../../utils/dates';
+
+const INVALID_DATE_MESSAGE = "Please enter a valid date.";
+
+interface DateRange {
+  start?: string;
+  end?: string;
+}
+
+function entryTimeZone(editEntry: EditEntry): string {
+  return editEntry.timeZone || browserTimeZone();
+}
+
+// Value shown by the native inputs: an ISO date, or the wall time of the entry time zone for date-times
+function inputValue(value: unknown, withTime: boolean, timeZone: string): string {
+  if (isEmpty(value)) return "";
+  if (!withTime) return toIsoDate(value) ?? "";
+  const iso = toIsoDateTime(value);
+  return iso ? isoToWallTime(iso, timeZone) : "";
+}
+
+// Value stored for what the native input holds, an empty input clears the field
+function storedValue(inputText: string, withTime: boolean, timeZone: string): string | undefined {
+  if (!inputText) return undefined;
+  return withTime ? wallTimeToIso(inputText, timeZone) : inputText;
+}
+
+// Submitted value: an ISO date or a UTC date-time. Values that can't be read are kept so validation reports them
+function formatDate(value: unknown, withTime: boolean): unknown {
+  if (isEmpty(value)) return undefined;
+  return (withTime ? toIsoDateTime(value) : toIsoDate(value)) ?? value;
+}
+
+function validateDate(value: unknown, editEntry: EditEntry, withTime: boolean): string[] {
+  if (isEmpty(value)) return [];
+  if (typeof value !== 'string' || (withTime ? !toIsoDateTime(value) : !isIsoDate(value))) return [INVALID_DATE_MESSAGE];
+  const timeZone = entryTimeZone(editEntry);
+  return dateConstraintErrors(withTime ? isoToWallTime(value, timeZone) : value, editEntry, withTime, timeZone);
+}
+
+const TimeZoneHint: React.FC<{ timeZone: string }> = ({ timeZone }) => (
+  <p className="text-sm text-gray-500 dark:text-gray-400">Times are in {timeZone.replace(/_/g, " ")}</p>
+);
+
+interface DateInputProps {
+  id: string;
+  editEntry: EditEntry;
+  value: unknown;
+  withTime: boolean;
+  errors: string[];
+  // Lower bound of the input, the range end can't be before its start
+  min?: string;
+  onChange: (value: string | undefined) => void;
+}
+
+const DateInput: React.FC<DateInputProps> = ({ id, editEntry, value, withTime, errors, min, onChange }) => {
+  const timeZone = entryTimeZone(editEntry);
+  const entryMin = inputBound(editEntry.minDate, withTime, timeZone, false);
+  return (
+    <input
+      id={id}
+      name={id}
+      type={withTime ? "datetime-local" : "date"}
+      value={inputValue(value, withTime, timeZone)}
+      min={min && (!entryMin || min > entryMin) ? min : entryMin}
+      max={inputBound(editEntry.maxDate, withTime, timeZone, true)}
+      className={inputClassName}
+      {...invalidProps(editEntry.attribute, errors)}
+      onChange={(event) => onChange(storedValue(event.target.value, withTime, timeZone))}
+    />
+  );
+};
+
+const DateField: React.FC<FieldRenderProps & { withTime: boolean }> = ({
+  editEntry, entity, requiredMark, setFieldValue, errors, isValidating, onBlur, withTime,
+}) => (
+  <div className="col-span-6 sm:col-span-3" onBlur={onBlur}>
+    <FieldLabel editEntry={editEntry} requiredMark={requiredMark} />
+    <div className="my-2">
+      <DateInput
+        id={editEntry.attribute}
+        editEntry={editEntry}
+        value={entity[editEntry.attribute]}
+        withTime={withTime}
+        errors={errors}
+        onChange={(value) => setFieldValue(editEntry.attribute, value)}
+      />
+    </div>
+    {withTime && <TimeZoneHint timeZone={entryTimeZone(editEntry)} />}
+    {editEntry.info && (
+      <p className="text-sm text-gray-500 dark:text-gray-400">{editEntry.info}</p>
+    )}
+    <FieldErrors attribute={editEntry.attribute} errors={errors} isValidating={isValidating} />
+  </div>
+);
+
+const DateRangeField: React.FC<FieldRenderProps> = ({ editEntry, entity, requiredMark, setFieldValue, errors, isValidating, onBlur }) => {
+  const withTime = !!editEntry.withTime;
+  const range: DateRange = entity[editEntry.attribute] || {};
+  const setBound = (bound: keyof DateRange, value: string | undefined) =>
+    setFieldValue(editEntry.attribute, (values) => ({ ...(values[editEntry.attribute] || {}), [bound]: value }));
+
+  return (
+    <div className="col-span-6" onBlur={onBlur}>
+      <FieldLabel editEntry={editEntry} requiredMark={requiredMark} />
+      <div className="my-2 grid grid-cols-1 gap-4 sm:grid-cols-2">
+        <div>
+          <label htmlFor={editEntry.attribute + "-start"} className="block text-sm text-gray-500 dark:text-gray-400">Start</label>
+          <DateInput
+            id={editEntry.attribute + "-start"}
+            editEntry={editEntry}
+            value={range.start}
+            withTime={withTime}
+            errors={errors}
+            onChange={(value) => setBound('start', value)}
+          />
+        </div>
+        <div>
+          <label htmlFor={editEntry.attribute + "-end"} className="block text-sm text-gray-500 dark:text-gray-400">End</label>
+          <DateInput
+            id={editEntry.attribute + "-end"}
+            editEntry={editEntry}
+            value={range.end}
+            withTime={withTime}
+            errors={errors}
+            min={inputValue(range.start, withTime, entryTimeZone(editEntry)) || undefined}
+            onChange={(value) => setBound('end', value)}
+          />
+        </div>
+      </div>
+      {withTime && <TimeZoneHint timeZone={entryTimeZone(editEntry)} />}
+      {editEntry.info && (
+        <p className="text-sm text-gray-500 dark:text-gray-400">{editEntry.info}</p>
+      )}
+      <FieldErrors attribute={editEntry.attribute} errors={errors} isValidating={isValidating} />
+    </div>
+  );
+};
+
+export const dateField: FieldTypeDefinition = {
+  render: (props) => <DateField {...props} withTime={false} />,
+  format: (value) => formatDate(value, false),
+  validate: (value, editEntry) => validateDate(value, editEntry, false),
+};
+
+// Edited in the time zone of the entry, stored as a UTC date-time
+export const dateTimeField: FieldTypeDefinition = {
+  render: (props) => <DateField {...props} withTime={true} />,
+  format: (value) => formatDate(value, true),
+  validate: (value, editEntry) => validateDate(value, editEntry, true),
+};
+
+export const dateRangeField: FieldTypeDefinition = {
+  render: DateRangeField,
+  // An empty range is no value, so the required check applies to it
+  format: (value, editEntry) => {
+    const range = (value || {}) as DateRange;
+    if (isEmpty(range.start) && isEmpty(range.end)) return undefined;
+    return { start: formatDate(range.start, !!editEntry.withTime), end: formatDate(range.end, !!editEntry.withTime) };
+  },
+  validate: (value, editEntry) => {
+    if (!value) return [];
+    const range = value as DateRange;
+    const withTime = !!editEntry.withTime;
+    if (!range.start || !range.end) return ["Please pick both dates."];
+    const errors = [...new Set([...validateDate(range.start, editEntry, withTime), ...validateDate(range.end, editEntry, withTime)])];
+    if (errors.length) return errors;
+    const isReversed = withTime ? new Date(range.end) < new Date(range.start) : range.end < range.start;
+    return isReversed ? ["The end date must be on or after the start date."] : [];
+  },
+};
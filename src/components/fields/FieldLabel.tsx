@@ -0,0 +1,66 @@
+import React from 'react';
+import type { EditEntry } from '../../data/editEntry';
+import { errorId } from './shared';
+
+interface FieldLabelProps {
+  editEntry: EditEntry;
+  requiredMark: string;
+  htmlFor?: string;
+}
+
+// Label shown above the single input fields, with the optional sub name below it
+export const FieldLabel: React.FC<FieldLabelProps> = ({ editEntry, requiredMark, htmlFor }) => (
+  <label htmlFor={htmlFor ?? editEntry.attribute} className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+    {editEntry.attributeName + requiredMark}
+    {editEntry.subName && (
+      <span className="block text-xs text-gray-500 dark:text-gray-400">{editEntry.subName}</span>
+    )}
+  </label>
+);
+
+interface SectionHeaderProps {
+  title: string;
+  subName?: string;
+}
+
+// Divider and heading that open the fields made of several inputs (lists, articles, addresses...)
+export const SectionHeader: React.FC<SectionHeaderProps> = ({ title, subName }) => (
+  <>
+    <div className="relative py-5">
+      <div className="absolute inset-0 flex items-center" aria-hidden="true">
+        <div className="w-full border-t border-gray-300 dark:border-gray-600" />
+      </div>
+    </div>
+    <div className="col-span-6 pb-2">
+      <h3 className="text-lg font-medium leading-6 text-gray-900 dark:text-gray-100">{title}</h3>
+      {subName && (
+        <p className="text-xs text-gray-500 dark:text-gray-400">{subName}</p>
+      )}
+    </div>
+  </>
+);
+
+interface FieldErrorsProps {
+  attribute: string;
+  errors: string[];
+  isValidating?: boolean;
+}
+
+// Errors of a field, listed under its inputs, and the indicator of a running async validation
+export const FieldErrors: React.FC<FieldErrorsProps> = ({ attribute, errors, isValidating = false }) => (
+  <>
+    {isValidating && (
+      <p role="status" className="mt-1 flex items-center text-sm text-gray-500 dark:text-gray-400">
+        <span className="mr-2 h-3 w-3 animate-spin rounded-full border-2 border-gray-300 border-t-indigo-600" aria-hidden="true" />
+        Checking...
+      </p>
+    )}
+    {errors.length > 0 && (
+      <ul id={errorId(attribute)} className="mt-1 space-y-1 text-sm text-red-600 dark:text-red-400">
+        {errors.map((error) => (
+          <li key={error}>{error}</li>
+        ))}
+      </ul>
+    )}
+  </>
+);
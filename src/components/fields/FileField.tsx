@@ -0,0 +1,36 @@
+import React from 'react';
+import { FileUpload } from '../FileUpload';
+import { StoredFileState, type StoredFile } from '../../data/common';
+import { FieldErrors } from './FieldLabel';
+import type { FieldRenderProps, FieldTypeDefinition } from './registry';
+
+const FileField: React.FC<FieldRenderProps> = ({ editEntry, entity, setFieldValue, errors, isValidating, onBlur }) => (
+  <div className="col-span-6" onBlur={onBlur}>
+    <FileUpload
+      fieldDisplayName={editEntry.attributeName}
+      fieldDisplaySubName={editEntry.subName}
+      fieldName={editEntry.attribute}
+      // We need to validate if entity[editEntry.attribute] is an array
+      files={entity && Array.isArray(entity[editEntry.attribute]) ? entity[editEntry.attribute] as StoredFile[] : []}
+      // We check if id exists and we define it as a string
+      entityId={entity && 'id' in entity ? String(entity.id) : null}
+      supportedFileTypes={".jpg,.png"}
+      uponFileChange={(files) => setFieldValue(editEntry.attribute, files)}
+      isMultiple={true}
+      isInvalid={errors.length > 0}
+    />
+    <FieldErrors attribute={editEntry.attribute} errors={errors} isValidating={isValidating} />
+  </div>
+);
+
+// Removed files stay in the list while editing, marked as deleted. They are not part of the submitted value
+function liveFiles(value: unknown): StoredFile[] {
+  return Array.isArray(value) ? (value as StoredFile[]).filter((file) => file.state !== StoredFileState.Deleted) : [];
+}
+
+// Used for both File and FilePhoto
+export const fileField: FieldTypeDefinition = {
+  render: FileField,
+  format: (value) => liveFiles(value),
+  validate: (value, editEntry) => (editEntry.isRequired && !liveFiles(value).length ? ["Please add at least one file."] : []),
+};
@@ -0,0 +1,305 @@
+import React, { useRef, useState } from 'react';
+import { FieldErrors, SectionHeader } from './FieldLabel';
+import { classNames, secondaryButtonClassName } from './shared';
+import { getFieldType, type FieldRenderProps, type FieldTypeDefinition, type SetFieldValue } from './registry';
+import { EditEntryType, type EditEntry, type Entity } from '../../data/editEntry';
+import { isEntryVisible } from '../../utils/visibility';
+import { validateEntry } from '../../utils/validation';
+import { computedEntries, withComputedValues } from '../../utils/computed';
+
+const rowButtonClassName = "rounded px-2 py-1 text-xs font-medium text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-40 disabled:hover:bg-transparent focus:outline-none focus:ring-2 focus:ring-indigo-500";
+
+// Rows of a group. Older values may be objects keyed by the row index, like DoubleTextList stores them
+function groupRows(value: unknown): Entity[] {
+  if (!value || typeof value !== 'object') return [];
+  const rows = Array.isArray(value) ? value : Object.values(value as Record<string, Entity>);
+  return rows.map((row) => (row && typeof row === 'object' ? row : {}));
+}
+
+/*
+ * Ids of the row objects. A changed row is a new object that takes the id of the one it replaces, so the late
+ * changes of a row (an upload finishing) find it after it was moved, and are dropped once it was removed
+ */
+const rowIds = new WeakMap<Entity, number>();
+let nextRowId = 0;
+
+function rowId(row: Entity): number {
+  let id = rowIds.get(row);
+  if (id === undefined) {
+    id = nextRowId++;
+    rowIds.set(row, id);
+  }
+  return id;
+}
+
+function withRowId(previousRow: Entity, row: Entity): Entity {
+  if (row !== previousRow) rowIds.set(row, rowId(previousRow));
+  return row;
+}
+
+function moveItem<T>(items: T[], from: number, to: number): T[] {
+  const moved = [...items];
+  moved.splice(to, 0, moved.splice(from, 1)[0]);
+  return moved;
+}
+
+/*
+ * The entries of a row are rendered with attributes scoped to the row ("items.2.name"), so their
+ * inputs get unique ids and their uploads unique names. The values of the row keep the plain attributes
+ */
+function rowPrefix(editEntry: EditEntry, index: number): string {
+  return `${editEntry.attribute}.${index}.`;
+}
+
+// The entries of a row that are shown, sibling values of the row can hide them
+function visibleRowFields(editEntry: EditEntry, row: Entity): EditEntry[] {
+  return (editEntry.fields || []).filter((field) => isEntryVisible(field, row));
+}
+
+function formatField(field: EditEntry, value: unknown): unknown {
+  const fieldType = getFieldType(field.type || EditEntryType.Text);
+  return fieldType?.format ? fieldType.format(value, field) : value;
+}
+
+// Errors of each entry of a row, the row values are checked like the values of the form
+function rowErrors(editEntry: EditEntry, row: Entity): Record<string, string[]> {
+  const errors: Record<string, string[]> = {};
+  for (const field of visibleRowFields(editEntry, row)) {
+    const fieldType = getFieldType(field.type || EditEntryType.Text);
+    const fieldErrors = validateEntry(field, formatField(field, row[field.attribute]), row, fieldType?.validate);
+    if (fieldErrors.length) errors[field.attribute] = fieldErrors;
+  }
+  return errors;
+}
+
+// Keys that follow the rows when they are moved, so the fields keeping their own state stay with their row
+function useRowKeys(rowCount: number) {
+  const nextKey = useRef(0);
+  const keys = useRef<number[]>([]);
+  // Rows added or removed from outside (undo, reset...) get new keys
+  if (keys.current.length !== rowCount) {
+    keys.current = Array.from({ length: rowCount }, () => nextKey.current++);
+  }
+  return {
+    keys: keys.current,
+    insert: (index: number) => keys.current.splice(index, 0, nextKey.current++),
+    remove: (index: number) => keys.current.splice(index, 1),
+    move: (from: number, to: number) => { keys.current = moveItem(keys.current, from, to); },
+  };
+}
+
+interface GroupRowProps {
+  editEntry: EditEntry;
+  index: number;
+  row: Entity;
+  // Errors of the entries of the row, only passed once the group shows its errors
+  errors: Record<string, string[]>;
+  setRowValue: SetFieldValue;
+  uploadPhoto: FieldRenderProps['uploadPhoto'];
+  onBlur: () => void;
+}
+
+const GroupRow: React.FC<GroupRowProps> = ({ editEntry, index, row, errors, setRowValue, uploadPhoto, onBlur }) => {
+  const prefix = rowPrefix(editEntry, index);
+  // The row values seen by the entries, under their scoped attributes
+  const scopedRow = Object.fromEntries(Object.entries(row).map(([attribute, value]) => [prefix + attribute, value]));
+
+  return (
+    <div className="mt-4 grid grid-cols-1 gap-y-6 gap-x-4 sm:grid-cols-6">
+      {visibleRowFields(editEntry, row).map((field) => {
+        const fieldType = getFieldType(field.type || EditEntryType.Text);
+        if (!fieldType) {
+          console.warn(`No field type registered for "${field.type}"`);
+          return null;
+        }
+        const Field = field.compute !== undefined ? getFieldType(EditEntryType.Computed)!.render : fieldType.render;
+        return (
+          <Field
+            key={field.attribute}
+            editEntry={{ ...field, attribute: prefix + field.attribute }}
+            entity={scopedRow}
+            requiredMark={field.isRequired ? "*" : ""}
+            setFieldValue={setRowValue}
+            uploadPhoto={uploadPhoto}
+            errors={errors[field.attribute] || []}
+            isValidating={false}
+            onBlur={onBlur}
+          />
+        );
+      })}
+    </div>
+  );
+};
+
+const GroupField: React.FC<FieldRenderProps> = ({ editEntry, entity, requiredMark, setFieldValue, uploadPhoto, errors, isValidating, onBlur }) => {
+  const rows = groupRows(entity && entity[editEntry.attribute]);
+  const rowKeys = useRowKeys(rows.length);
+  const [draggedRow, setDraggedRow] = useState<number | null>(null);
+  const [dropTarget, setDropTarget] = useState<number | null>(null);
+  const canAdd = editEntry.maxRows === undefined || rows.length < editEntry.maxRows;
+  const canRemove = rows.length > (editEntry.minRows ?? 0);
+
+  // Computed entries of a row read the other values of the row
+  const computed = computedEntries(editEntry.fields || []);
+
+  // Row changes are applied to the latest rows, so a late upload in a row doesn't undo the edits made meanwhile
+  const updateRows = (update: (currRows: Entity[]) => Entity[]) =>
+    setFieldValue(editEntry.attribute, (values) =>
+      update(groupRows(values[editEntry.attribute])).map((row) => withRowId(row, withComputedValues(computed, row))));
+
+  // The row is found by its id, it may have moved since the entry was rendered at this index
+  const rowSetter = (index: number, row: Entity): SetFieldValue => {
+    const prefix = rowPrefix(editEntry, index);
+    const id = rowId(row);
+    return (scopedAttribute: string, update: unknown) => {
+      const attribute = scopedAttribute.slice(prefix.length);
+      updateRows((currRows) => currRows.map((currRow) => {
+        if (rowId(currRow) !== id) return currRow;
+        // Functional updates of the entries read the row under the scoped attributes, like they see it
+        const scopedRow = Object.fromEntries(Object.entries(currRow).map(([key, value]) => [prefix + key, value]));
+        return withRowId(currRow, { ...currRow, [attribute]: typeof update === 'function' ? update(scopedRow) : update });
+      }));
+    };
+  };
+
+  const addRow = () => {
+    rowKeys.insert(rows.length);
+    updateRows((currRows) => [...currRows, {}]);
+  };
+  const removeRow = (index: number) => {
+    rowKeys.remove(index);
+    updateRows((currRows) => currRows.filter((_, i) => i !== index));
+  };
+  const duplicateRow = (index: number) => {
+    rowKeys.insert(index + 1);
+    updateRows((currRows) => [...currRows.slice(0, index + 1), structuredClone(currRows[index]), ...currRows.slice(index + 1)]);
+  };
+  const moveRow = (from: number, to: number) => {
+    if (from === to || to < 0 || to >= rows.length) return;
+    rowKeys.move(from, to);
+    updateRows((currRows) => moveItem(currRows, from, to));
+  };
+
+  // The entries of the rows are marked invalid once the errors of the group are shown
+  const errorsOfRows = errors.length ? rows.map((row) => rowErrors(editEntry, row)) : [];
+
+  return (
+    <div className="col-span-6" onBlur={onBlur}>
+      <SectionHeader title={editEntry.attributeName + requiredMark} subName={editEntry.subName} />
+      <ol className="space-y-4">
+        {rows.map((row, i) => (
+          <li
+            key={rowKeys.keys[i]}
+            aria-label={`${editEntry.attributeName} ${i + 1}`}
+            className={classNames(
+              "rounded-md border border-gray-200 dark:border-gray-700 p-4",
+              draggedRow === i && "opacity-50",
+              dropTarget === i && draggedRow !== i && "ring-2 ring-indigo-500",
+            )}
+            onDragOver={(event) => {
+              if (draggedRow === null) return;
+              event.preventDefault();
+              setDropTarget(i);
+            }}
+            // Dropping is a single move, so it is a single undo step
+            onDrop={(event) => {
+              event.preventDefault();
+              if (draggedRow !== null) moveRow(draggedRow, i);
+              setDraggedRow(null);
+              setDropTarget(null);
+            }}
+          >
+            <div className="flex items-center justify-between">
+              <div className="flex items-center">
+                <span
+                  draggable
+                  onDragStart={(event) => {
+                    event.dataTransfer.effectAllowed = "move";
+                    setDraggedRow(i);
+                  }}
+                  onDragEnd={() => {
+                    setDraggedRow(null);
+                    setDropTarget(null);
+                  }}
+                  className="mr-2 cursor-grab select-none text-gray-400"
+                  title="Drag to reorder"
+                  aria-hidden="true"
+                >
+                  ⠿
+                </span>
+                <span className="text-sm font-medium text-gray-700 dark:text-gray-300">{i + 1}</span>
+              </div>
+              <div className="flex space-x-1">
+                <button type="button" className={rowButtonClassName} disabled={i === 0} onClick={() => moveRow(i, i - 1)}>
+                  Move up
+                </button>
+                <button type="button" className={rowButtonClassName} disabled={i === rows.length - 1} onClick={() => moveRow(i, i + 1)}>
+                  Move down
+                </button>
+                <button type="button" className={rowButtonClassName} disabled={!canAdd} onClick={() => duplicateRow(i)}>
+                  Duplicate
+                </button>
+                <button type="button" className={rowButtonClassName} disabled={!canRemove} onClick={() => removeRow(i)}>
+                  Remove
+                </button>
+              </div>
+            </div>
+            <GroupRow
+              editEntry={editEntry}
+              index={i}
+              row={row}
+              errors={errorsOfRows[i] || {}}
+              setRowValue={rowSetter(i, row)}
+              uploadPhoto={uploadPhoto}
+              onBlur={onBlur}
+            />
+          </li>
+        ))}
+      </ol>
+      <FieldErrors attribute={editEntry.attribute} errors={errors} isValidating={isValidating} />
+      <div className="mt-4 flex">
+        <button type="button" className={secondaryButtonClassName} disabled={!canAdd} onClick={addRow}>
+          Add row
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export const groupField: FieldTypeDefinition = {
+  render: GroupField,
+  // Rows are submitted as an array of objects, each entry of a row formatted by its own field type
+  format: (value, editEntry) => groupRows(value).map((row) => withComputedValues(computedEntries(editEntry.fields || []), row)).map((row) => ({
+    ...row,
+    ...Object.fromEntries((editEntry.fields || []).map((field) => [field.attribute, formatField(field, row[field.attribute])])),
+  })),
+  validate: (value, editEntry) => {
+    const rows = groupRows(value);
+    const errors: string[] = [];
+    if (editEntry.isRequired && !rows.length) errors.push("Please add at least one row.");
+    if (editEntry.minRows !== undefined && rows.length < editEntry.minRows) {
+      errors.push(`Please add at least ${editEntry.minRows} rows.`);
+    }
+    if (editEntry.maxRows !== undefined && rows.length > editEntry.maxRows) {
+      errors.push(`Please add at most ${editEntry.maxRows} rows.`);
+    }
+    rows.forEach((row, i) => {
+      const errorsOfRow = rowErrors(editEntry, row);
+      for (const field of editEntry.fields || []) {
+        for (const error of errorsOfRow[field.attribute] || []) {
+          errors.push(`${editEntry.attributeName} ${i + 1}, ${field.attributeName}: ${error}`);
+        }
+      }
+    });
+    return errors;
+  },
+  // The entries of the rows that upload on submit (like signatures) are uploaded row by row
+  upload: (value, editEntry, uploadFile) => Promise.all(groupRows(value).map(async (row) => {
+    const uploadedRow: Entity = { ...row };
+    for (const field of editEntry.fields || []) {
+      const fieldType = getFieldType(field.type || EditEntryType.Text);
+      if (fieldType?.upload) uploadedRow[field.attribute] = await fieldType.upload(row[field.attribute], field, uploadFile);
+    }
+    return uploadedRow;
+  })),
+};
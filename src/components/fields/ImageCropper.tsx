@@ -0,0 +1,151 @@
+import React, { useEffect, useId, useRef, useState } from 'react';
+import { secondaryButtonClassName } from './shared';
+import { centeredCrop, type CropArea } from '../../utils/image';
+
+export interface ImageCropperProps {
+  file: File;
+  aspectRatio: number;
+  onCrop: (area: CropArea) => void;
+  onCancel: () => void;
+}
+
+interface ImageSize {
+  width: number;
+  height: number;
+}
+
+const MAX_ZOOM = 4;
+
+// Area of the ratio around the center, zoomed in from the largest one and kept inside the image
+function cropAround(size: ImageSize, aspectRatio: number, zoom: number, center: { x: number; y: number } | null): CropArea {
+  const largest = centeredCrop(size.width, size.height, aspectRatio);
+  const width = largest.width / zoom;
+  const height = largest.height / zoom;
+  const clamp = (value: number, half: number, max: number) => Math.min(Math.max(value, half), max - half);
+  const x = clamp(center ? center.x : size.width / 2, width / 2, size.width);
+  const y = clamp(center ? center.y : size.height / 2, height / 2, size.height);
+  return { x: x - width / 2, y: y - height / 2, width, height };
+}
+
+// Dialog choosing the part of the picked image to keep, by dragging a frame of the ratio and zooming in
+export const ImageCropper: React.FC<ImageCropperProps> = ({ file, aspectRatio, onCrop, onCancel }) => {
+  const titleId = useId();
+  const imageRef = useRef<HTMLImageElement>(null);
+  const drag = useRef<{ pointerX: number; pointerY: number; x: number; y: number } | null>(null);
+  const [imageUrl, setImageUrl] = useState<string>("");
+  const [size, setSize] = useState<ImageSize | null>(null);
+  const [zoom, setZoom] = useState<number>(1);
+  const [center, setCenter] = useState<{ x: number; y: number } | null>(null);
+
+  // We show the file without uploading it, the url is released when the dialog closes
+  useEffect(() => {
+    const url = URL.createObjectURL(file);
+    setImageUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [file]);
+
+  const area = size && cropAround(size, aspectRatio, zoom, center);
+  // Pixels of the image in one pixel of the screen
+  const imageScale = () => (size && imageRef.current ? size.width / imageRef.current.clientWidth : 1);
+  const moveBy = (dx: number, dy: number) => area && setCenter({ x: area.x + area.width / 2 + dx, y: area.y + area.height / 2 + dy });
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if (!size) return;
+    const step = (event.shiftKey ? 0.1 : 0.02) * Math.max(size.width, size.height);
+    const moves: Record<string, [number, number]> = {
+      ArrowLeft: [-step, 0],
+      ArrowRight: [step, 0],
+      ArrowUp: [0, -step],
+      ArrowDown: [0, step],
+    };
+    if (!moves[event.key]) return;
+    event.preventDefault();
+    moveBy(...moves[event.key]);
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4"
+      onKeyDown={(event) => {
+        if (event.key !== "Escape") return;
+        event.stopPropagation();
+        onCancel();
+      }}
+    >
+      <div role="dialog" aria-modal="true" aria-labelledby={titleId} className="w-full max-w-2xl rounded-lg bg-white dark:bg-gray-800 p-4 shadow-xl">
+        <h2 id={titleId} className="text-lg font-medium text-gray-900 dark:text-gray-100">Crop the image</h2>
+        <p className="text-sm text-gray-500 dark:text-gray-400">Drag the frame or use the arrow keys to choose the part to keep.</p>
+        <div className="mt-4 flex justify-center">
+          <div className="relative inline-block overflow-hidden select-none">
+            {imageUrl && (
+              <img
+                ref={imageRef}
+                src={imageUrl}
+                alt=""
+                draggable={false}
+                className="block max-h-[60vh] max-w-full"
+                onLoad={(event) => setSize({ width: event.currentTarget.naturalWidth, height: event.currentTarget.naturalHeight })}
+              />
+            )}
+            {size && area && (
+              <div
+                role="group"
+                aria-label="Crop frame"
+                tabIndex={0}
+                autoFocus
+                className="absolute cursor-move touch-none border-2 border-white shadow-[0_0_0_9999px_rgba(0,0,0,0.5)] focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                style={{
+                  left: `${area.x * 100 / size.width}%`,
+                  top: `${area.y * 100 / size.height}%`,
+                  width: `${area.width * 100 / size.width}%`,
+                  height: `${area.height * 100 / size.height}%`,
+                }}
+                onKeyDown={handleKeyDown}
+                onPointerDown={(event) => {
+                  event.currentTarget.setPointerCapture(event.pointerId);
+                  drag.current = { pointerX: event.clientX, pointerY: event.clientY, x: area.x + area.width / 2, y: area.y + area.height / 2 };
+                }}
+                onPointerMove={(event) => {
+                  if (!drag.current) return;
+                  const scale = imageScale();
+                  setCenter({
+                    x: drag.current.x + (event.clientX - drag.current.pointerX) * scale,
+                    y: drag.current.y + (event.clientY - drag.current.pointerY) * scale,
+                  });
+                }}
+                onPointerUp={() => {
+                  drag.current = null;
+                }}
+              />
+            )}
+          </div>
+        </div>
+        <label className="mt-4 flex items-center gap-3 text-sm font-medium text-gray-700 dark:text-gray-300">
+          Zoom
+          <input
+            type="range"
+            min={1}
+            max={MAX_ZOOM}
+            step={0.01}
+            value={zoom}
+            onChange={(event) => setZoom(Number(event.target.value))}
+            className="flex-1 accent-indigo-600"
+          />
+        </label>
+        <div className="mt-4 flex justify-end">
+          <button type="button" onClick={onCancel} className={secondaryButtonClassName}>
+            Cancel
+          </button>
+          <button
+            type="button"
+            disabled={!area}
+            onClick={() => area && onCrop(area)}
+            className="ml-3 inline-flex rounded-md border border-transparent bg-indigo-600 dark:bg-indigo-700 py-2 px-4 text-sm font-medium text-white dark:text-white shadow-sm hover:bg-indigo-700 dark:hover:bg-indigo-800 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 disabled:opacity-50"
+          >
+            Crop
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,179 @@
+import React, { useRef } from 'react';
+import { classNames, inputClassName, pickPhoto } from './shared';
+import { htmlToMarkdown, parseMarkdown, type MarkdownBlock, type MarkdownInline } from '../../utils/markdown';
+
+const toolbarButtonClassName = "rounded px-2 py-1 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-indigo-500";
+
+const InlineNodes: React.FC<{ nodes: MarkdownInline[] }> = ({ nodes }) => (
+  <>
+    {nodes.map((node, i) => {
+      switch (node.type) {
+        case 'text':
+          return <React.Fragment key={i}>{node.text}</React.Fragment>;
+        case 'bold':
+          return <strong key={i}><InlineNodes nodes={node.children} /></strong>;
+        case 'italic':
+          return <em key={i}><InlineNodes nodes={node.children} /></em>;
+        case 'link':
+          return <a key={i} href={node.href} target="_blank" rel="noopener noreferrer" className="text-indigo-600 dark:text-indigo-400 underline"><InlineNodes nodes={node.children} /></a>;
+        case 'image':
+          return <img key={i} src={node.src} alt={node.alt} className="my-2 max-h-60 rounded" />;
+      }
+    })}
+  </>
+);
+
+const HEADING_CLASS_NAMES = ["text-2xl font-bold", "text-xl font-semibold", "text-lg font-semibold"];
+
+const PreviewBlock: React.FC<{ block: MarkdownBlock }> = ({ block }) => {
+  switch (block.type) {
+    case 'heading': {
+      const Heading = `h${block.level + 2}` as 'h3' | 'h4' | 'h5';
+      return <Heading className={HEADING_CLASS_NAMES[block.level - 1]}><InlineNodes nodes={block.children} /></Heading>;
+    }
+    case 'list': {
+      const List = block.ordered ? 'ol' : 'ul';
+      return (
+        <List className={classNames("ml-5", block.ordered ? "list-decimal" : "list-disc")}>
+          {block.items.map((item, i) => <li key={i}><InlineNodes nodes={item} /></li>)}
+        </List>
+      );
+    }
+    case 'paragraph':
+      return <p className="whitespace-pre-line"><InlineNodes nodes={block.children} /></p>;
+  }
+};
+
+// The Markdown rendered as React elements, so nothing in it is ever run as HTML
+export const MarkdownPreview: React.FC<{ markdown: string }> = ({ markdown }) => (
+  <div className="space-y-3 text-sm text-gray-900 dark:text-gray-100">
+    {parseMarkdown(markdown).map((block, i) => <PreviewBlock key={i} block={block} />)}
+  </div>
+);
+
+interface MarkdownEditorProps {
+  id: string;
+  value: string;
+  // Late changes (like an uploaded image) pass a function of the latest value
+  onChange: (value: string | ((current: string) => string)) => void;
+  // Uploads an image and calls onUploaded with its url
+  uploadImage: (file: File, onUploaded: (url: string) => void) => void;
+  ariaProps?: React.TextareaHTMLAttributes<HTMLTextAreaElement>;
+}
+
+/*
+ * Textarea with a toolbar writing Markdown and a preview next to it. Formatting pasted from Word or
+ * web pages is kept as Markdown, the rest of it is dropped
+ */
+export const MarkdownEditor: React.FC<MarkdownEditorProps> = ({ id, value, onChange, uploadImage, ariaProps }) => {
+  const textarea = useRef<HTMLTextAreaElement>(null);
+  const imageInput = useRef<HTMLInputElement>(null);
+
+  // Replaces the selection and selects the given part of the inserted text once it is rendered
+  const replaceSelection = (build: (selected: string) => { text: string; select?: [number, number] }, lineStart: boolean = false) => {
+    const element = textarea.current;
+    if (!element) return;
+    let start = element.selectionStart;
+    const end = element.selectionEnd;
+    if (lineStart) start = value.lastIndexOf("\n", start - 1) + 1;
+    const { text, select } = build(value.slice(start, end));
+    onChange(value.slice(0, start) + text + value.slice(end));
+    requestAnimationFrame(() => {
+      element.focus();
+      const [from, to] = select ?? [text.length, text.length];
+      element.setSelectionRange(start + from, start + to);
+    });
+  };
+
+  const wrap = (marker: string, placeholder: string) => replaceSelection((selected) => {
+    const inner = selected || placeholder;
+    return { text: marker + inner + marker, select: [marker.length, marker.length + inner.length] };
+  });
+
+  const prefixLines = (prefix: (index: number) => string) => replaceSelection((selected) => ({
+    text: (selected || "").split("\n").map((line, i) => prefix(i) + line.replace(/^(#{1,3}\s+|\s*[-*+]\s+|\s*\d+[.)]\s+)/, "")).join("\n"),
+  }), true);
+
+  const insertLink = () => replaceSelection((selected) => {
+    const text = selected || "link text";
+    return { text: `[${text}](https://)`, select: [text.length + 3, text.length + 11] };
+  });
+
+  // The image is inserted where the cursor was when it was picked, once it is uploaded
+  const insertImage = (file: File) => {
+    const position = textarea.current?.selectionStart ?? value.length;
+    uploadImage(file, (url) => onChange((current) => `${current.slice(0, position)}\n\n![](${url})\n\n${current.slice(position)}`));
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (!(event.ctrlKey || event.metaKey) || event.shiftKey || event.altKey) return;
+    const key = event.key.toLowerCase();
+    if (key === 'b') wrap("**", "bold text");
+    else if (key === 'i') wrap("*", "italic text");
+    else if (key === 'k') insertLink();
+    else return;
+    event.preventDefault();
+  };
+
+  const handlePaste = (event: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    const html = event.clipboardData.getData("text/html");
+    if (!html) return;
+    event.preventDefault();
+    const markdown = htmlToMarkdown(html);
+    replaceSelection(() => ({ text: markdown }));
+  };
+
+  return (
+    <div className="grid grid-cols-1 gap-4 lg:grid-cols-2">
+      <div>
+        <div role="toolbar" aria-label="Formatting" aria-controls={id} className="mb-1 flex flex-wrap gap-1">
+          <button type="button" className={toolbarButtonClassName} title="Bold (Ctrl+B)" onClick={() => wrap("**", "bold text")}>
+            <strong>B</strong>
+          </button>
+          <button type="button" className={toolbarButtonClassName} title="Italic (Ctrl+I)" onClick={() => wrap("*", "italic text")}>
+            <em>I</em>
+          </button>
+          <button type="button" className={toolbarButtonClassName} title="Heading" onClick={() => prefixLines(() => "## ")}>
+            H
+          </button>
+          <button type="button" className={toolbarButtonClassName} title="Bulleted list" onClick={() => prefixLines(() => "- ")}>
+            • List
+          </button>
+          <button type="button" className={toolbarButtonClassName} title="Numbered list" onClick={() => prefixLines((i) => `${i + 1}. `)}>
+            1. List
+          </button>
+          <button type="button" className={toolbarButtonClassName} title="Link (Ctrl+K)" onClick={insertLink}>
+            Link
+          </button>
+          <button type="button" className={toolbarButtonClassName} title="Image" onClick={() => imageInput.current?.click()}>
+            Image
+          </button>
+          <input
+            type="file"
+            accept=".jpg,.png"
+            ref={imageInput}
+            style={{ display: 'none' }}
+            onChange={(event) => pickPhoto(event, insertImage)}
+          />
+        </div>
+        <textarea
+          id={id}
+          name={id}
+          ref={textarea}
+          rows={12}
+          className={classNames(inputClassName, "font-mono")}
+          value={value}
+          onChange={(event) => onChange(event.target.value)}
+          onKeyDown={handleKeyDown}
+          onPaste={handlePaste}
+          {...ariaProps}
+        />
+      </div>
+      <div role="region" aria-label="Preview" className="min-h-[10rem] rounded-md border border-gray-200 dark:border-gray-700 p-3">
+        {value.trim()
+          ? <MarkdownPreview markdown={value} />
+          : <p className="text-sm text-gray-400 dark:text-gray-500">The preview of the content is shown here.</p>}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,163 @@
+import React, { useEffect, useState } from 'react';
+import { FieldErrors, FieldLabel } from './FieldLabel';
+import { classNames, inputClassName, invalidProps } from './shared';
+import type { FieldRenderProps, FieldTypeDefinition } from './registry';
+import type { EditEntry } from '../../data/editEntry';
+import { isEmpty } from '../../utils/validation';
+import {
+  currencyDigits, editableNumber, formatNumber, fromMinorUnits, parseLocaleNumber, toMinorUnits,
+} from '../../utils/numbers';
+
+/*
+ * The value is a number while it can be read, in minor units for currencies, and the typed text otherwise.
+ * Amounts shown and typed are in major units: min, max and step too
+ */
+function displayedNumber(value: unknown, editEntry: EditEntry): number | null {
+  if (typeof value !== 'number') return null;
+  return editEntry.currency ? fromMinorUnits(value, editEntry.currency) : value;
+}
+
+function storedNumber(amount: number, editEntry: EditEntry): number {
+  return editEntry.currency ? toMinorUnits(amount, editEntry.currency) : amount;
+}
+
+// Text of the value, in the locale format while editing and with group separators and currency otherwise
+function valueText(value: unknown, editEntry: EditEntry, isEditing: boolean): string {
+  const amount = displayedNumber(value, editEntry);
+  if (amount === null) return isEmpty(value) ? "" : String(value);
+  return isEditing
+    ? editableNumber(amount, editEntry.locale, editEntry.currency)
+    : formatNumber(amount, editEntry.locale, editEntry.currency);
+}
+
+// Formats a bound in the unit shown to the user, for the error messages
+function formatAmount(amount: number, editEntry: EditEntry): string {
+  return formatNumber(amount, editEntry.locale, editEntry.currency);
+}
+
+const NumberField: React.FC<FieldRenderProps> = ({ editEntry, entity, requiredMark, setFieldValue, errors, isValidating, onBlur }) => {
+  const value = entity[editEntry.attribute];
+  // The typed text is kept while editing, so "12," isn't turned into "12" under the cursor
+  const [editingText, setEditingText] = useState<string | null>(null);
+
+  // Changes made from outside (undo, reset...) replace the typed text
+  useEffect(() => {
+    setEditingText((text) => {
+      if (text === null) return null;
+      const amount = parseLocaleNumber(text, editEntry.locale);
+      const typedValue = amount === null ? (text.trim() ? text : undefined) : storedNumber(amount, editEntry);
+      return typedValue === value ? text : valueText(value, editEntry, true);
+    });
+  }, [value, editEntry]);
+
+  const changeText = (text: string) => {
+    setEditingText(text);
+    const amount = parseLocaleNumber(text, editEntry.locale);
+    setFieldValue(editEntry.attribute, amount === null ? (text.trim() ? text : undefined) : storedNumber(amount, editEntry));
+  };
+
+  // Arrow keys add or remove a step, within min and max
+  const stepValue = (direction: number) => {
+    const amount = displayedNumber(value, editEntry) ?? editEntry.min ?? 0;
+    const step = editEntry.step ?? 1;
+    let next = Number((amount + direction * step).toFixed(10));
+    if (editEntry.min !== undefined) next = Math.max(next, editEntry.min);
+    if (editEntry.max !== undefined) next = Math.min(next, editEntry.max);
+    setEditingText(editableNumber(next, editEntry.locale, editEntry.currency));
+    setFieldValue(editEntry.attribute, storedNumber(next, editEntry));
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key !== 'ArrowUp' && event.key !== 'ArrowDown') return;
+    event.preventDefault();
+    stepValue(event.key === 'ArrowUp' ? 1 : -1);
+  };
+
+  return (
+    <div className="col-span-6 sm:col-span-3" onBlur={onBlur}>
+      <FieldLabel editEntry={editEntry} requiredMark={requiredMark} />
+      <div className="relative my-2">
+        <input
+          id={editEntry.attribute}
+          name={editEntry.attribute}
+          type="text"
+          inputMode={editEntry.step !== undefined && Number.isInteger(editEntry.step) && !editEntry.currency ? "numeric" : "decimal"}
+          role="spinbutton"
+          aria-valuenow={displayedNumber(value, editEntry) ?? undefined}
+          aria-valuemin={editEntry.min}
+          aria-valuemax={editEntry.max}
+          value={editingText ?? valueText(value, editEntry, false)}
+          placeholder={editEntry.placeholder}
+          className={classNames(inputClassName, !!editEntry.currency && "pr-14")}
+          {...invalidProps(editEntry.attribute, errors)}
+          onFocus={() => setEditingText(valueText(value, editEntry, true))}
+          onBlur={() => setEditingText(null)}
+          onChange={(event) => changeText(event.target.value)}
+          onKeyDown={handleKeyDown}
+        />
+        {editEntry.currency && (
+          <span className="pointer-events-none absolute inset-y-0 right-0 flex items-center pr-3 text-sm text-gray-500 dark:text-gray-400">
+            {editEntry.currency}
+          </span>
+        )}
+      </div>
+      {editEntry.info && (
+        <p className="text-sm text-gray-500 dark:text-gray-400">{editEntry.info}</p>
+      )}
+      <FieldErrors attribute={editEntry.attribute} errors={errors} isValidating={isValidating} />
+    </div>
+  );
+};
+
+// Numbers stored as text (like the values of older forms) are submitted as numbers
+function formatNumberValue(value: unknown, editEntry: EditEntry): unknown {
+  if (isEmpty(value)) return undefined;
+  if (typeof value !== 'string') return value;
+  const amount = parseLocaleNumber(value, editEntry.locale) ?? parseLocaleNumber(value, 'en-US');
+  return amount === null ? value : storedNumber(amount, editEntry);
+}
+
+function validateNumberValue(value: unknown, editEntry: EditEntry): string[] {
+  if (isEmpty(value)) return [];
+  if (typeof value !== 'number' || isNaN(value)) return ["Please enter a valid number."];
+  const errors: string[] = [];
+  const amount = displayedNumber(value, editEntry) as number;
+  const noun = editEntry.currency ? "an amount" : "a number";
+  if (editEntry.currency && !Number.isInteger(value)) {
+    errors.push(`Please enter an amount with up to ${currencyDigits(editEntry.currency)} decimals.`);
+  }
+  if (editEntry.min !== undefined && amount < editEntry.min) {
+    errors.push(`Please enter ${noun} of at least ${formatAmount(editEntry.min, editEntry)}.`);
+  }
+  if (editEntry.max !== undefined && amount > editEntry.max) {
+    errors.push(`Please enter ${noun} up to ${formatAmount(editEntry.max, editEntry)}.`);
+  }
+  if (editEntry.step !== undefined) {
+    // Steps are counted from min, like the step of a native number input
+    const steps = (amount - (editEntry.min ?? 0)) / editEntry.step;
+    if (Math.abs(steps - Math.round(steps)) > 1e-9) {
+      errors.push(`Please enter ${noun} in steps of ${formatAmount(editEntry.step, editEntry)}.`);
+    }
+  }
+  return errors;
+}
+
+const DEFAULT_CURRENCY = 'USD';
+
+// Number ignores the currency, Currency uses USD when the entry has none
+function withCurrency(editEntry: EditEntry, currency: string | undefined): EditEntry {
+  return editEntry.currency === currency ? editEntry : { ...editEntry, currency };
+}
+
+export const numberField: FieldTypeDefinition = {
+  render: (props) => <NumberField {...props} editEntry={withCurrency(props.editEntry, undefined)} />,
+  format: (value, editEntry) => formatNumberValue(value, withCurrency(editEntry, undefined)),
+  validate: (value, editEntry) => validateNumberValue(value, withCurrency(editEntry, undefined)),
+};
+
+// Submitted in minor units, 12.50 USD is 1250
+export const currencyField: FieldTypeDefinition = {
+  render: (props) => <NumberField {...props} editEntry={withCurrency(props.editEntry, props.editEntry.currency || DEFAULT_CURRENCY)} />,
+  format: (value, editEntry) => formatNumberValue(value, withCurrency(editEntry, editEntry.currency || DEFAULT_CURRENCY)),
+  validate: (value, editEntry) => validateNumberValue(value, withCurrency(editEntry, editEntry.currency || DEFAULT_CURRENCY)),
+};
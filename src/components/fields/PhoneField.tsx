@@ -0,0 +1,83 @@
+import React from 'react';
+import { FieldErrors, FieldLabel } from './FieldLabel';
+import { classNames, inputClassName, invalidProps } from './shared';
+import type { FieldRenderProps, FieldTypeDefinition } from './registry';
+import type { EditEntry } from '../../data/editEntry';
+import { COUNTRIES } from '../../data/addressFormats';
+import { CALLING_CODES, DEFAULT_PHONE_COUNTRY, phoneFormat } from '../../data/phoneFormats';
+import { formatNational, isValidE164, parsePhone, phoneCountry, phoneExample, toE164, type PhoneInput } from '../../utils/phone';
+
+// Countries sorted by name for the calling code select
+const COUNTRY_OPTIONS = Object.keys(CALLING_CODES)
+  .filter((country) => COUNTRIES[country])
+  .sort((a, b) => COUNTRIES[a].localeCompare(COUNTRIES[b]));
+
+function defaultCountry(editEntry: EditEntry): string {
+  return editEntry.defaultCountry && CALLING_CODES[editEntry.defaultCountry] ? editEntry.defaultCountry : DEFAULT_PHONE_COUNTRY;
+}
+
+const PhoneField: React.FC<FieldRenderProps> = ({ editEntry, entity, requiredMark, setFieldValue, errors, isValidating, onBlur }) => {
+  const phone = parsePhone(entity && entity[editEntry.attribute], defaultCountry(editEntry));
+  const format = phoneFormat(phone.country);
+
+  const setPhone = (nextPhone: PhoneInput) => setFieldValue(editEntry.attribute, nextPhone);
+
+  // The number is written as it is typed. A number typed or pasted with its calling code picks the country
+  const handleNumberChange = (text: string) => {
+    if (/^\s*(\+|00)/.test(text)) {
+      setPhone(parsePhone(text, phone.country));
+      return;
+    }
+    let digits = text.replace(/\D/g, "");
+    // Deleting a separator deletes the digit before it, otherwise the separator would come back
+    if (text.length < phone.national.length && digits === phone.national.replace(/\D/g, "")) digits = digits.slice(0, -1);
+    setPhone({ country: phone.country, national: formatNational(digits, phone.country) });
+  };
+
+  return (
+    <div className="col-span-6 sm:col-span-4" onBlur={onBlur}>
+      <FieldLabel editEntry={editEntry} requiredMark={requiredMark} />
+      <div className="my-2 flex">
+        <select
+          id={editEntry.attribute + "_country"}
+          name={editEntry.attribute + "_country"}
+          aria-label="Country calling code"
+          value={phone.country}
+          onChange={(event) => setPhone({ country: event.target.value, national: formatNational(phone.national, event.target.value) })}
+          className={classNames(inputClassName, "w-36 flex-none rounded-r-none")}
+        >
+          {COUNTRY_OPTIONS.map((country) => (
+            <option key={country} value={country}>{`${COUNTRIES[country]} (+${CALLING_CODES[country]})`}</option>
+          ))}
+        </select>
+        <input
+          type="tel"
+          id={editEntry.attribute}
+          name={editEntry.attribute}
+          autoComplete="tel"
+          inputMode="tel"
+          value={phone.national}
+          placeholder={editEntry.placeholder ?? (format.example && formatNational(format.example, phone.country))}
+          onChange={(event) => handleNumberChange(event.target.value)}
+          className={classNames(inputClassName, "-ml-px rounded-l-none")}
+          {...invalidProps(editEntry.attribute, errors)}
+        />
+      </div>
+      <FieldErrors attribute={editEntry.attribute} errors={errors} isValidating={isValidating} />
+    </div>
+  );
+};
+
+export const phoneField: FieldTypeDefinition = {
+  render: PhoneField,
+  // Submitted in E.164, '+14155550123'
+  format: (value, editEntry) => toE164(parsePhone(value, defaultCountry(editEntry))),
+  validate: (value, editEntry) => {
+    if (typeof value !== 'string' || !value || isValidE164(value)) return [];
+    const country = phoneCountry(value, defaultCountry(editEntry));
+    const example = phoneExample(country);
+    return [example
+      ? `Please enter a valid ${COUNTRIES[country]} phone number, like ${example}.`
+      : "Please enter a valid phone number."];
+  },
+};
@@ -0,0 +1,134 @@
+import React, { useRef } from 'react';
+import { FieldErrors, FieldLabel } from './FieldLabel';
+import { UploadProgress } from '../UploadProgress';
+import { ImageCropper } from './ImageCropper';
+import { usePreparedImage } from '../usePreparedImage';
+import { changePhotoButtonClassName, invalidProps, PHOTO_IMAGE, pickPhoto, PROFILE_PHOTO_IMAGE } from './shared';
+import type { FieldRenderProps, FieldTypeDefinition } from './registry';
+
+const ProfilePhotoField: React.FC<FieldRenderProps> = ({ editEntry, entity, requiredMark, setFieldValue, uploadPhoto, errors, isValidating, onBlur }) => {
+  const shadowFileInput = useRef<HTMLInputElement>(null);
+  const photoUrl = entity && entity[editEntry.attribute] ? String(entity[editEntry.attribute]) : "";
+  const uploadFieldPhoto = (file: File) => uploadPhoto(editEntry.attribute, file, (filePath) => setFieldValue(editEntry.attribute, filePath));
+  const image = usePreparedImage(editEntry.image, PROFILE_PHOTO_IMAGE, uploadFieldPhoto);
+
+  return (
+    <div className="col-span-6 py-3" onBlur={onBlur}>
+      <FieldLabel editEntry={editEntry} requiredMark={requiredMark} />
+      <div className="my-2 flex items-center">
+        <span className="h-12 w-12 overflow-hidden rounded-full bg-gray-300 dark:bg-gray-600">
+          {photoUrl && <img className="object-cover aspect-square" src={photoUrl} alt="" />}
+        </span>
+        <button
+          type="button"
+          onClick={() => shadowFileInput.current?.click()}
+          className={"ml-5 " + changePhotoButtonClassName}
+          {...invalidProps(editEntry.attribute, errors)}
+        >
+          Change
+        </button>
+        <input
+          id={editEntry.attribute}
+          type="file"
+          accept=".jpg,.png"
+          onChange={(event) => pickPhoto(event, image.pick)}
+          ref={shadowFileInput}
+          style={{ display: 'none' }}
+        />
+      </div>
+      {image.cropper && <ImageCropper {...image.cropper} />}
+      <UploadProgress fieldName={editEntry.attribute} />
+      <FieldErrors attribute={editEntry.attribute} errors={errors} isValidating={isValidating} />
+    </div>
+  );
+};
+
+const PhotoField: React.FC<FieldRenderProps> = ({ editEntry, entity, requiredMark, setFieldValue, uploadPhoto, errors, isValidating, onBlur }) => {
+  const shadowFileInput = useRef<HTMLInputElement>(null);
+  const photoUrl = entity && entity[editEntry.attribute] ? String(entity[editEntry.attribute]) : "";
+  const uploadFieldPhoto = (file: File) => uploadPhoto(editEntry.attribute, file, (filePath) => setFieldValue(editEntry.attribute, filePath));
+  const image = usePreparedImage(editEntry.image, PHOTO_IMAGE, uploadFieldPhoto);
+
+  return (
+    <div className="col-span-6 py-3" onBlur={onBlur}>
+      <FieldLabel editEntry={editEntry} requiredMark={requiredMark} />
+      {!photoUrl ? (
+        <div className="my-2 flex justify-center rounded-md border-2 border-dashed border-gray-300 dark:border-gray-600 px-6 pt-5 pb-6">
+          <div className="space-y-1 text-center">
+            <svg
+              className="mx-auto h-12 w-12 text-gray-400 dark:text-gray-500"
+              stroke="currentColor"
+              fill="none"
+              viewBox="0 0 48 48"
+              aria-hidden="true"
+            >
+              <path
+                d="M28 8H12a4 4 0 00-4 4v20m32-12v8m0 0v8a4 4 0 01-4 4H12a4 4 0 01-4-4v-4m32-4l-3.172-3.172a4 4 0 00-5.656 0L28 28M8 32l9.172-9.172a4 4 0 015.656 0L28 28m0 0l4 4m4-24h8m-4-4v8m-12 4h.02"
+                strokeWidth={2}
+                strokeLinecap="round"
+                strokeLinejoin="round"
+              />
+            </svg>
+            <div className="flex text-sm text-gray-600 dark:text-gray-400">
+              <label
+                htmlFor={editEntry.attribute}
+                className="relative cursor-pointer rounded-md bg-white dark:bg-gray-800 font-medium text-indigo-600 dark:text-indigo-400 focus-within:outline-none focus-within:ring-2 focus-within:ring-indigo-500 focus-within:ring-offset-2 hover:text-indigo-500 dark:hover:text-indigo-400"
+              >
+                <span>Select a file</span>
+                <input id={editEntry.attribute}
+                  type="file"
+                  className="sr-only"
+                  {...invalidProps(editEntry.attribute, errors)}
+                  accept={'.jpg,.png'}
+                  onClick={(event) => {
+                    (event.target as HTMLInputElement).value = ''
+                  }}
+                  onChange={(event) => pickPhoto(event, image.pick)}
+                />
+              </label>
+              <p className="pl-1"> to upload</p>
+            </div>
+            <p className="text-xs text-gray-500 dark:text-gray-400">{'.jpg, .png' + " up to 10MB"}</p>
+          </div>
+        </div>
+      ) : (
+        <>
+          <div className="my-2 flex rounded-md overflow-hidden max-w-xl">
+            <span className="overflow-hidden bg-gray-300 dark:bg-gray-600">
+              <img className="object-cover aspect-video" src={photoUrl} alt="" />
+            </span>
+          </div>
+          <div className="py-2">
+            <button
+              type="button"
+              onClick={() => shadowFileInput.current?.click()}
+              className={changePhotoButtonClassName}
+              {...invalidProps(editEntry.attribute, errors)}
+            >
+              Change
+            </button>
+            <input
+              id={editEntry.attribute}
+              type="file"
+              accept=".jpg,.png"
+              onChange={(event) => pickPhoto(event, image.pick)}
+              ref={shadowFileInput}
+              style={{ display: 'none' }}
+            />
+          </div>
+        </>
+      )}
+      {image.cropper && <ImageCropper {...image.cropper} />}
+      <UploadProgress fieldName={editEntry.attribute} />
+      <FieldErrors attribute={editEntry.attribute} errors={errors} isValidating={isValidating} />
+    </div>
+  );
+};
+
+export const profilePhotoField: FieldTypeDefinition = {
+  render: ProfilePhotoField,
+};
+
+export const photoField: FieldTypeDefinition = {
+  render: PhotoField,
+};
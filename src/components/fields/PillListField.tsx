@@ -0,0 +1,309 @@
+import React, { useEffect, useState } from 'react';
+import { FieldErrors } from './FieldLabel';
+import { classNames, invalidProps } from './shared';
+import type { FieldRenderProps, FieldTypeDefinition } from './registry';
+import type { EditEntry } from '../../data/editEntry';
+
+const SUGGESTION_DEBOUNCE = 300;
+const MAX_SUGGESTIONS = 8;
+
+// Pills are trimmed, and the invisible characters pasted with them don't count as text
+function cleanPill(text: string): string {
+  return text.replace(/[\u200B-\u200D\u2060\uFEFF]/g, "").replace(/\s+/g, " ").trim();
+}
+
+// Key comparing the pills for the dedupe setting of the entry, null when duplicates are allowed
+function pillKey(pill: string, editEntry: EditEntry): string | null {
+  const dedupe = editEntry.dedupe ?? 'caseInsensitive';
+  if (!dedupe) return null;
+  return dedupe === 'caseInsensitive' ? pill.toLocaleLowerCase() : pill;
+}
+
+function isDuplicate(pill: string, pills: string[], editEntry: EditEntry): boolean {
+  const key = pillKey(pill, editEntry);
+  return key !== null && pills.some((existingPill) => pillKey(existingPill, editEntry) === key);
+}
+
+/*
+ * Adds the pills that pass the constraints of the entry. Returns the new pills and the reason the
+ * first rejected one was left out
+ */
+function addPills(pills: string[], candidates: string[], editEntry: EditEntry): { pills: string[]; rejected?: string } {
+  const nextPills = [...pills];
+  let rejected: string | undefined;
+  for (const candidate of candidates.map(cleanPill).filter(Boolean)) {
+    let reason: string | undefined;
+    if (editEntry.maxPills !== undefined && nextPills.length >= editEntry.maxPills) {
+      reason = `You can add up to ${editEntry.maxPills}.`;
+    } else if (editEntry.maxPillLength !== undefined && candidate.length > editEntry.maxPillLength) {
+      reason = `"${candidate}" is longer than ${editEntry.maxPillLength} characters.`;
+    } else if (isDuplicate(candidate, nextPills, editEntry)) {
+      reason = `"${candidate}" is already in the list.`;
+    }
+    if (reason) {
+      rejected = rejected ?? reason;
+    } else {
+      nextPills.push(candidate);
+    }
+  }
+  return { pills: nextPills, rejected };
+}
+
+// Suggestions for the typed text: the static ones that contain it, or the ones loaded for it
+function useSuggestions(editEntry: EditEntry, query: string, isOpen: boolean): { suggestions: string[]; isLoading: boolean } {
+  const source = editEntry.suggestions;
+  const [loadedSuggestions, setLoadedSuggestions] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+
+  // Async suggestions are loaded when the user stops typing, the request of the previous text is aborted
+  useEffect(() => {
+    if (typeof source !== 'function' || !isOpen || !query.trim()) return;
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      setIsLoading(true);
+      source(query, controller.signal)
+        .then((suggestions) => {
+          if (!controller.signal.aborted) setLoadedSuggestions(suggestions);
+        })
+        .catch((error) => {
+          if (controller.signal.aborted) return;
+          console.warn(`Could not load the suggestions of "${editEntry.attribute}"`, error);
+          setLoadedSuggestions([]);
+        })
+        .finally(() => {
+          if (!controller.signal.aborted) setIsLoading(false);
+        });
+    }, SUGGESTION_DEBOUNCE);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [source, isOpen, query, editEntry.attribute]);
+
+  if (!source || !query.trim()) return { suggestions: [], isLoading: false };
+  if (typeof source === 'function') return { suggestions: loadedSuggestions, isLoading };
+  const search = query.trim().toLocaleLowerCase();
+  return { suggestions: source.filter((suggestion) => suggestion.toLocaleLowerCase().includes(search)), isLoading: false };
+}
+
+const PillListField: React.FC<FieldRenderProps> = ({ editEntry, entity, setFieldValue, errors, isValidating, onBlur }) => {
+  const [newPill, setNewPill] = useState("");
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  const [activeIndex, setActiveIndex] = useState<number>(-1);
+  // Why the last pill typed or pasted was not added
+  const [notice, setNotice] = useState<string>("");
+  const [draggedPill, setDraggedPill] = useState<number | null>(null);
+  // We check if exists, if not the default will be an empty array
+  const pills = ((entity && entity[editEntry.attribute]) || []) as string[];
+  const isFull = editEntry.maxPills !== undefined && pills.length >= editEntry.maxPills;
+
+  const { suggestions, isLoading } = useSuggestions(editEntry, newPill, isOpen);
+  // Suggestions already in the list are not offered again
+  const listedSuggestions = suggestions
+    .filter((suggestion) => !pills.includes(suggestion) && !isDuplicate(suggestion, pills, editEntry))
+    .slice(0, MAX_SUGGESTIONS);
+  const listId = editEntry.attribute + "-suggestions";
+  const optionId = (index: number) => editEntry.attribute + "-suggestion-" + index;
+
+  // Adds the typed, picked or pasted pills, and tells why some of them were left out
+  const add = (candidates: string[]) => {
+    const result = addPills(pills, candidates, editEntry);
+    if (result.pills.length !== pills.length) setFieldValue(editEntry.attribute, result.pills);
+    setNotice(result.rejected || "");
+    setNewPill("");
+    setActiveIndex(-1);
+  };
+
+  // Function to remove a pill
+  const removePill = (index: number) => {
+    setFieldValue(editEntry.attribute, pills.filter((_, i) => i !== index));
+    setNotice("");
+  };
+
+  const movePill = (from: number, to: number) => {
+    if (from === to) return;
+    const movedPills = [...pills];
+    movedPills.splice(to, 0, movedPills.splice(from, 1)[0]);
+    setFieldValue(editEntry.attribute, movedPills);
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    switch (event.key) {
+      case "ArrowDown":
+      case "ArrowUp":
+        if (!listedSuggestions.length) return;
+        event.preventDefault();
+        setIsOpen(true);
+        setActiveIndex((index) => event.key === "ArrowDown"
+          ? (index + 1) % listedSuggestions.length
+          : (index <= 0 ? listedSuggestions.length : index) - 1);
+        break;
+      case "Enter":
+      case ",":
+        // Enter adds the pill instead of submitting the form, and commas separate the pills
+        event.preventDefault();
+        if (isOpen && listedSuggestions[activeIndex]) {
+          add([listedSuggestions[activeIndex]]);
+        } else if (newPill.trim()) {
+          add([newPill]);
+        }
+        break;
+      case "Escape":
+        if (isOpen && listedSuggestions.length) {
+          event.preventDefault();
+          setIsOpen(false);
+        }
+        break;
+      case "Backspace":
+        if (!newPill && pills.length) removePill(pills.length - 1);
+        break;
+    }
+  };
+
+  // A pasted list is split on commas and new lines, a single value is pasted as text
+  const handlePaste = (event: React.ClipboardEvent<HTMLInputElement>) => {
+    const text = event.clipboardData.getData("text");
+    if (!/[,\n]/.test(text)) return;
+    event.preventDefault();
+    add(text.split(/[,\r\n]+/));
+  };
+
+  // The suggestions close when the focus leaves the field, clicks on them keep it in the input
+  const handleBlur = (event: React.FocusEvent<HTMLDivElement>) => {
+    if (event.currentTarget.contains(event.relatedTarget as Node | null)) return;
+    setIsOpen(false);
+    onBlur();
+  };
+
+  const showSuggestions = isOpen && (isLoading || listedSuggestions.length > 0);
+
+  return (
+    <div className="col-span-6 sm:col-span-3 relative" onBlur={handleBlur}>
+      {/* We show the label tag */}
+      <label htmlFor={`${editEntry.attribute}-new`} className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+        {editEntry.attributeName}
+        {editEntry.isRequired && <span className="text-red-500">*</span>}
+        {editEntry.subName && (
+          <span className="block text-xs text-gray-500 dark:text-gray-400">{editEntry.subName}</span>
+        )}
+      </label>
+
+      {/* We show the pills and the input to add new pills */}
+      <div className="mt-2">
+        <div className="flex flex-wrap items-center w-full rounded-md border border-gray-300 dark:border-gray-600 px-2 py-1 shadow-sm focus-within:border-indigo-500 focus-within:ring-1 focus-within:ring-indigo-500 dark:bg-gray-800">
+          {pills.map((pill: string, index: number) => (
+            <div
+              key={index}
+              draggable
+              onDragStart={(event) => {
+                event.dataTransfer.effectAllowed = "move";
+                setDraggedPill(index);
+              }}
+              onDragOver={(event) => {
+                if (draggedPill !== null) event.preventDefault();
+              }}
+              onDrop={(event) => {
+                event.preventDefault();
+                if (draggedPill !== null) movePill(draggedPill, index);
+                setDraggedPill(null);
+              }}
+              onDragEnd={() => setDraggedPill(null)}
+              className={classNames(
+                "flex items-center rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 px-3 py-1 m-1 text-sm cursor-grab",
+                draggedPill === index && "opacity-50",
+              )}
+            >
+              <span className="text-blue-600 dark:text-blue-400 font-gram font-semibold">{pill}</span>
+              <button type="button" onClick={() => removePill(index)}
+                aria-label={"Remove " + pill}
+                className="ml-1 text-blue-600 dark:text-blue-400 hover:text-gray-700 dark:hover:text-gray-300 focus:outline-none text-md font-gram font-bold bg-transparent p-0 border-0"
+              >
+                ×
+              </button>
+            </div>
+          ))}
+          <input type="text" id={`${editEntry.attribute}-new`}
+            role="combobox"
+            autoComplete="off"
+            aria-autocomplete="list"
+            aria-expanded={showSuggestions}
+            aria-controls={listId}
+            aria-activedescendant={showSuggestions && listedSuggestions[activeIndex] ? optionId(activeIndex) : undefined}
+            value={newPill}
+            onChange={(e) => {
+              setNewPill(e.target.value);
+              setIsOpen(true);
+              setActiveIndex(-1);
+              setNotice("");
+            }}
+            {...invalidProps(editEntry.attribute, errors)}
+            onKeyDown={handleKeyDown}
+            onPaste={handlePaste}
+            className="flex-grow border-0 focus:ring-0 min-w-[150px] py-1 text-sm text-gray-900 dark:text-gray-100 bg-transparent dark:bg-transparent placeholder-gray-500 dark:placeholder-gray-400"
+            placeholder={isFull ? "The list is full" : editEntry.placeholder || "Type and press Enter to add a new pill"}
+          />
+        </div>
+        {showSuggestions && (
+          <ul
+            id={listId}
+            role="listbox"
+            onMouseDown={(event) => event.preventDefault()}
+            className="absolute z-10 mt-1 max-h-60 w-full overflow-auto rounded-md bg-white dark:bg-gray-800 py-1 text-sm shadow-lg ring-1 ring-black ring-opacity-5"
+          >
+            {isLoading && <li className="px-3 py-2 text-gray-500 dark:text-gray-400">Loading...</li>}
+            {!isLoading && listedSuggestions.map((suggestion, index) => (
+              <li
+                key={suggestion}
+                id={optionId(index)}
+                role="option"
+                aria-selected={index === activeIndex}
+                onClick={() => add([suggestion])}
+                onMouseEnter={() => setActiveIndex(index)}
+                className={classNames(
+                  "cursor-pointer px-3 py-2",
+                  index === activeIndex ? "bg-indigo-600 text-white" : "text-gray-900 dark:text-gray-100",
+                )}
+              >
+                {suggestion}
+              </li>
+            ))}
+          </ul>
+        )}
+        {notice && <p role="status" className="mt-1 text-sm text-gray-500 dark:text-gray-400">{notice}</p>}
+        <button type="button"
+          onClick={() => add([newPill])}
+          disabled={isFull}
+          className="mt-2 inline-flex items-center rounded-md border border-transparent bg-indigo-600 dark:bg-indigo-700 px-3 py-2 text-sm font-medium text-white dark:text-white shadow-sm hover:bg-indigo-700 dark:hover:bg-indigo-800 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 disabled:opacity-50"
+        >
+          Add
+        </button>
+      </div>
+      <FieldErrors attribute={editEntry.attribute} errors={errors} isValidating={isValidating} />
+    </div>
+  );
+};
+
+export const pillListField: FieldTypeDefinition = {
+  render: PillListField,
+  format: (value) => value || [],
+  // Pills added before the constraints were set (or by code) are checked again on submit
+  validate: (value, editEntry) => {
+    const pills = value as string[];
+    const errors: string[] = [];
+    if (editEntry.isRequired && !pills.length) errors.push("Please add at least one.");
+    if (editEntry.minPills !== undefined && pills.length < editEntry.minPills) {
+      errors.push(`Please add at least ${editEntry.minPills}.`);
+    }
+    if (editEntry.maxPills !== undefined && pills.length > editEntry.maxPills) {
+      errors.push(`Please add at most ${editEntry.maxPills}.`);
+    }
+    if (editEntry.maxPillLength !== undefined) {
+      const longPill = pills.find((pill) => pill.length > editEntry.maxPillLength!);
+      if (longPill) errors.push(`"${longPill}" is longer than ${editEntry.maxPillLength} characters.`);
+    }
+    if (pills.some((pill, i) => isDuplicate(pill, pills.slice(0, i), editEntry))) {
+      errors.push("Please remove the repeated values.");
+    }
+    return errors;
+  },
+};
@@ -0,0 +1,41 @@
+import React from 'react';
+import { FieldErrors, FieldLabel } from './FieldLabel';
+import { invalidProps, normalizeOptions } from './shared';
+import type { FieldRenderProps, FieldTypeDefinition } from './registry';
+
+const RadioField: React.FC<FieldRenderProps> = ({ editEntry, entity, requiredMark, setFieldValue, errors, isValidating, onBlur }) => {
+  const radioFieldValue = entity && entity[editEntry.attribute] != null ? String(entity[editEntry.attribute]) : "";
+
+  return (
+    <div className="col-span-6" onBlur={onBlur}>
+      <FieldLabel editEntry={editEntry} requiredMark={requiredMark} />
+      <fieldset className="mt-4">
+        <div className="space-y-4">
+          {normalizeOptions(editEntry.options).map((option) => (
+            <div className="flex items-center" key={option.value}>
+              <input
+                id={editEntry.attribute + "_" + option.value}
+                name={editEntry.attribute}
+                type="radio"
+                checked={radioFieldValue === option.value}
+                disabled={option.disabled}
+                {...invalidProps(editEntry.attribute, errors)}
+                className="h-4 w-4 border-gray-300 dark:border-gray-600 text-indigo-600 focus:ring-indigo-500"
+                value={option.value}
+                onChange={(e) => setFieldValue(editEntry.attribute, e.currentTarget.value)}
+              />
+              <label htmlFor={editEntry.attribute + "_" + option.value} className="ml-3 block text-sm font-medium text-gray-700 dark:text-gray-300">
+                {option.label}
+              </label>
+            </div>
+          ))}
+        </div>
+      </fieldset>
+      <FieldErrors attribute={editEntry.attribute} errors={errors} isValidating={isValidating} />
+    </div>
+  );
+};
+
+export const radioField: FieldTypeDefinition = {
+  render: RadioField,
+};
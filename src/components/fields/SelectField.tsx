@@ -0,0 +1,317 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { FieldErrors, FieldLabel } from './FieldLabel';
+import { classNames, inputClassName, invalidProps, normalizeOptions } from './shared';
+import type { FieldRenderProps, FieldTypeDefinition } from './registry';
+import type { SelectOption } from '../../data/editEntry';
+
+const SEARCH_DEBOUNCE = 300;
+
+interface OptionGroup {
+  group?: string;
+  options: SelectOption[];
+}
+
+// Options of the same group are listed together, groups keep the order of their first option
+function groupOptions(options: SelectOption[]): OptionGroup[] {
+  const groups: OptionGroup[] = [];
+  for (const option of options) {
+    const optionGroup = groups.find((group) => group.group === option.group);
+    if (optionGroup) {
+      optionGroup.options.push(option);
+    } else {
+      groups.push({ group: option.group, options: [option] });
+    }
+  }
+  return groups;
+}
+
+interface ClearButtonProps {
+  attributeName: string;
+  onClear: () => void;
+}
+
+const ClearButton: React.FC<ClearButtonProps> = ({ attributeName, onClear }) => (
+  <button
+    type="button"
+    onClick={onClear}
+    aria-label={"Clear " + attributeName}
+    className="ml-2 text-lg leading-none text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 focus:outline-none"
+  >
+    ×
+  </button>
+);
+
+// Static options with a single value use the native select
+const NativeSelectField: React.FC<FieldRenderProps> = ({ editEntry, entity, requiredMark, setFieldValue, errors, isValidating, onBlur }) => {
+  const value = entity && entity[editEntry.attribute] ? String(entity[editEntry.attribute]) : "";
+
+  return (
+    <div className="col-span-6 sm:col-span-3" onBlur={onBlur}>
+      <FieldLabel editEntry={editEntry} requiredMark={requiredMark} />
+      <div className="my-2 flex items-center">
+        <select
+          id={editEntry.attribute}
+          name={editEntry.attribute}
+          autoComplete={editEntry.attribute}
+          value={value}
+          className={inputClassName}
+          {...invalidProps(editEntry.attribute, errors)}
+          onChange={(event) => setFieldValue(editEntry.attribute, event.target.value)}
+        >
+          {/* The select starts empty, so a required select is only valid once an option is picked */}
+          <option value="" disabled>{editEntry.placeholder || "Select..."}</option>
+          {groupOptions(normalizeOptions(editEntry.options)).map(({ group, options }) => {
+            const optionElements = options.map((option) => (
+              <option key={option.value} value={option.value} disabled={option.disabled}>{option.label}</option>
+            ));
+            return group ? <optgroup key={group} label={group}>{optionElements}</optgroup> : optionElements;
+          })}
+        </select>
+        {editEntry.clearable && value && (
+          <ClearButton attributeName={editEntry.attributeName} onClear={() => setFieldValue(editEntry.attribute, undefined)} />
+        )}
+      </div>
+      <FieldErrors attribute={editEntry.attribute} errors={errors} isValidating={isValidating} />
+    </div>
+  );
+};
+
+/*
+ * Searchable, async and multiple selects: a text input with the list of options under it.
+ * It follows the ARIA combobox pattern, the focus stays in the input and the arrows move the active option
+ */
+const ComboboxSelectField: React.FC<FieldRenderProps> = ({ editEntry, entity, requiredMark, setFieldValue, errors, isValidating, onBlur }) => {
+  const staticOptions = useMemo(() => normalizeOptions(editEntry.options), [editEntry.options]);
+  const [query, setQuery] = useState<string>("");
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  const [activeIndex, setActiveIndex] = useState<number>(-1);
+  const [loadedOptions, setLoadedOptions] = useState<SelectOption[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  // Options loaded so far, so the selected values keep their labels after a new search
+  const [knownOptions, setKnownOptions] = useState<Record<string, SelectOption>>({});
+
+  const loadOptions = editEntry.loadOptions;
+  const isSearchable = Boolean(editEntry.searchable || loadOptions);
+  const value = entity && entity[editEntry.attribute];
+  const selectedValues: string[] = editEntry.multiple
+    ? (Array.isArray(value) ? value : [])
+    : (value ? [String(value)] : []);
+
+  // Async options are loaded when the user stops typing, the request of the previous query is aborted
+  useEffect(() => {
+    if (!loadOptions || !isOpen) return;
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      setIsLoading(true);
+      loadOptions(query, controller.signal)
+        .then((options) => {
+          if (controller.signal.aborted) return;
+          const normalizedOptions = normalizeOptions(options);
+          setLoadedOptions(normalizedOptions);
+          setKnownOptions((currKnownOptions) => ({
+            ...currKnownOptions,
+            ...Object.fromEntries(normalizedOptions.map((option) => [option.value, option])),
+          }));
+        })
+        .catch((error) => {
+          if (controller.signal.aborted) return;
+          console.warn(`Could not load the options of "${editEntry.attribute}"`, error);
+          setLoadedOptions([]);
+        })
+        .finally(() => {
+          if (!controller.signal.aborted) setIsLoading(false);
+        });
+    }, SEARCH_DEBOUNCE);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [loadOptions, isOpen, query, editEntry.attribute]);
+
+  const listedOptions = groupOptions(loadOptions
+    ? loadedOptions
+    : staticOptions.filter((option) => option.label.toLowerCase().includes(query.trim().toLowerCase()))
+  ).flatMap((group) => group.options);
+
+  const labelOf = (optionValue: string): string =>
+    (knownOptions[optionValue] || staticOptions.find((option) => option.value === optionValue))?.label ?? optionValue;
+
+  const listId = editEntry.attribute + "-listbox";
+  const optionId = (index: number) => editEntry.attribute + "-option-" + index;
+
+  const select = (option: SelectOption) => {
+    if (option.disabled) return;
+    setKnownOptions((currKnownOptions) => ({ ...currKnownOptions, [option.value]: option }));
+    if (editEntry.multiple) {
+      setFieldValue(editEntry.attribute, selectedValues.includes(option.value)
+        ? selectedValues.filter((selectedValue) => selectedValue !== option.value)
+        : [...selectedValues, option.value]);
+      setQuery("");
+    } else {
+      setFieldValue(editEntry.attribute, option.value);
+      setQuery("");
+      setIsOpen(false);
+    }
+  };
+
+  const clear = () => {
+    setFieldValue(editEntry.attribute, editEntry.multiple ? [] : undefined);
+    setQuery("");
+  };
+
+  // Next option that can be picked, in the given direction. Disabled options are skipped
+  const moveActive = (direction: 1 | -1) => {
+    if (!listedOptions.length) return;
+    let index = activeIndex;
+    for (let step = 0; step < listedOptions.length; step++) {
+      index = (index + direction + listedOptions.length) % listedOptions.length;
+      if (!listedOptions[index].disabled) break;
+    }
+    setActiveIndex(index);
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    switch (event.key) {
+      case "ArrowDown":
+      case "ArrowUp":
+        event.preventDefault();
+        setIsOpen(true);
+        moveActive(event.key === "ArrowDown" ? 1 : -1);
+        break;
+      case "Enter":
+        // While the list is open Enter picks the active option instead of submitting the form
+        if (isOpen && listedOptions[activeIndex]) {
+          event.preventDefault();
+          select(listedOptions[activeIndex]);
+        }
+        break;
+      case "Escape":
+        if (isOpen) {
+          event.preventDefault();
+          setIsOpen(false);
+        }
+        break;
+      case "Backspace":
+        if (editEntry.multiple && !query && selectedValues.length) {
+          setFieldValue(editEntry.attribute, selectedValues.slice(0, -1));
+        }
+        break;
+    }
+  };
+
+  // The list closes when the focus leaves the field, clicks on the options keep it in the input
+  const handleBlur = (event: React.FocusEvent<HTMLDivElement>) => {
+    if (event.currentTarget.contains(event.relatedTarget as Node | null)) return;
+    setIsOpen(false);
+    setQuery("");
+    onBlur();
+  };
+
+  const placeholder = editEntry.placeholder || (isSearchable ? "Search..." : "Select...");
+  const singleLabel = !editEntry.multiple && selectedValues.length ? labelOf(selectedValues[0]) : "";
+  let previousGroup: string | undefined;
+
+  return (
+    <div className="col-span-6 sm:col-span-3 relative" onBlur={handleBlur}>
+      <FieldLabel editEntry={editEntry} requiredMark={requiredMark} />
+      <div className="my-2 flex flex-wrap items-center w-full rounded-md border border-gray-300 dark:border-gray-600 px-2 py-1 shadow-sm focus-within:border-indigo-500 focus-within:ring-1 focus-within:ring-indigo-500 dark:bg-gray-800 has-[[aria-invalid=true]]:border-red-500">
+        {editEntry.multiple && selectedValues.map((selectedValue) => (
+          <span key={selectedValue} className="flex items-center rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 px-2 py-0.5 m-1 text-sm text-gray-700 dark:text-gray-200">
+            {labelOf(selectedValue)}
+            <button
+              type="button"
+              onClick={() => setFieldValue(editEntry.attribute, selectedValues.filter((v) => v !== selectedValue))}
+              aria-label={"Remove " + labelOf(selectedValue)}
+              className="ml-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 focus:outline-none"
+            >
+              ×
+            </button>
+          </span>
+        ))}
+        <input
+          id={editEntry.attribute}
+          type="text"
+          role="combobox"
+          autoComplete="off"
+          aria-autocomplete="list"
+          aria-expanded={isOpen}
+          aria-controls={listId}
+          aria-activedescendant={isOpen && listedOptions[activeIndex] ? optionId(activeIndex) : undefined}
+          readOnly={!isSearchable}
+          value={isOpen ? query : singleLabel}
+          placeholder={selectedValues.length && editEntry.multiple ? "" : placeholder}
+          {...invalidProps(editEntry.attribute, errors)}
+          onFocus={() => setIsOpen(true)}
+          onClick={() => setIsOpen(true)}
+          onChange={(event) => {
+            setQuery(event.target.value);
+            setIsOpen(true);
+            setActiveIndex(0);
+          }}
+          onKeyDown={handleKeyDown}
+          className="flex-grow border-0 focus:ring-0 min-w-[120px] py-1 text-sm text-gray-900 dark:text-gray-100 bg-transparent dark:bg-transparent placeholder-gray-500 dark:placeholder-gray-400"
+        />
+        {editEntry.clearable && selectedValues.length > 0 && (
+          <ClearButton attributeName={editEntry.attributeName} onClear={clear} />
+        )}
+      </div>
+      {isOpen && (
+        <ul
+          id={listId}
+          role="listbox"
+          aria-multiselectable={editEntry.multiple || undefined}
+          onMouseDown={(event) => event.preventDefault()}
+          className="absolute z-10 mt-1 max-h-60 w-full overflow-auto rounded-md bg-white dark:bg-gray-800 py-1 text-sm shadow-lg ring-1 ring-black ring-opacity-5"
+        >
+          {isLoading && <li className="px-3 py-2 text-gray-500 dark:text-gray-400">Loading...</li>}
+          {!isLoading && !listedOptions.length && <li className="px-3 py-2 text-gray-500 dark:text-gray-400">No options</li>}
+          {!isLoading && listedOptions.map((option, index) => {
+            const isNewGroup = option.group !== previousGroup;
+            previousGroup = option.group;
+            const isSelected = selectedValues.includes(option.value);
+            return (
+              <React.Fragment key={option.value}>
+                {isNewGroup && option.group && (
+                  <li role="presentation" className="px-3 pt-2 pb-1 text-xs font-semibold uppercase text-gray-500 dark:text-gray-400">
+                    {option.group}
+                  </li>
+                )}
+                <li
+                  id={optionId(index)}
+                  role="option"
+                  aria-selected={isSelected}
+                  aria-disabled={option.disabled || undefined}
+                  onClick={() => select(option)}
+                  onMouseEnter={() => setActiveIndex(index)}
+                  className={classNames(
+                    "cursor-pointer px-3 py-2 flex justify-between",
+                    index === activeIndex && "bg-indigo-600 text-white",
+                    index !== activeIndex && "text-gray-900 dark:text-gray-100",
+                    !!option.disabled && "cursor-not-allowed opacity-50"
+                  )}
+                >
+                  {option.label}
+                  {isSelected && <span aria-hidden="true">✓</span>}
+                </li>
+              </React.Fragment>
+            );
+          })}
+        </ul>
+      )}
+      <FieldErrors attribute={editEntry.attribute} errors={errors} isValidating={isValidating} />
+    </div>
+  );
+};
+
+const SelectField: React.FC<FieldRenderProps> = (props) =>
+  props.editEntry.searchable || props.editEntry.loadOptions || props.editEntry.multiple
+    ? <ComboboxSelectField {...props} />
+    : <NativeSelectField {...props} />;
+
+export const selectField: FieldTypeDefinition = {
+  render: SelectField,
+  format: (value, editEntry) => editEntry.multiple ? (Array.isArray(value) ? value : []) : value,
+  // An empty array passes the required check, a required multiple select needs one option at least
+  validate: (value, editEntry) =>
+    editEntry.multiple && editEntry.isRequired && !(value as string[]).length ? ["Please select at least one option."] : [],
+};
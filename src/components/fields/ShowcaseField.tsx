@@ -0,0 +1,199 @@
+import React, { useRef } from 'react';
+import { FileUpload } from '../FileUpload';
+import { FieldErrors, SectionHeader } from './FieldLabel';
+import { UploadProgress } from '../UploadProgress';
+import { ImageCropper } from './ImageCropper';
+import { usePreparedImage } from '../usePreparedImage';
+import { imageOptions, prepareImage } from '../../utils/image';
+import { changePhotoButtonClassName, inputClassName, invalidProps, pickPhoto, PROFILE_PHOTO_IMAGE } from './shared';
+import type { FieldRenderProps, FieldTypeDefinition } from './registry';
+import { StoredFile, StoredFileState } from '../../data/common';
+import type { EditEntry, Entity } from '../../data/editEntry';
+
+// We need to check and validate extraParam.isInstagramShowcase first and manage the type
+function isInstagramShowcase(editEntry: EditEntry): boolean {
+  return editEntry.extraParam && typeof editEntry.extraParam === 'object' && 'isInstagramShowcase' in editEntry.extraParam
+    ? Boolean(editEntry.extraParam.isInstagramShowcase)
+    : false;
+}
+
+// Showcases without maxPhotos take the 6 images they always asked for
+const DEFAULT_MAX_PHOTOS = 6;
+
+// We do the same with maxPhotos
+function maxPhotos(editEntry: EditEntry): number {
+  return editEntry.extraParam && typeof editEntry.extraParam === 'object' && 'maxPhotos' in editEntry.extraParam
+    ? Number(editEntry.extraParam.maxPhotos)
+    : DEFAULT_MAX_PHOTOS;
+}
+
+// The showcase value, its images are the files stored by FileUpload
+interface Showcase {
+  title?: string;
+  handle?: string;
+  url?: string;
+  profile_photo_url?: string;
+  image_urls?: StoredFile[];
+}
+
+const ShowcaseField: React.FC<FieldRenderProps> = ({ editEntry, entity, setFieldValue, uploadPhoto, errors, isValidating, onBlur }) => {
+  const shadowFileInput = useRef<HTMLInputElement>(null);
+  const isInstagram = isInstagramShowcase(editEntry);
+  const photoLimit = maxPhotos(editEntry);
+  const showcase = ((entity && entity[editEntry.attribute]) || {}) as Showcase;
+  const profilePhotoUrl = showcase["profile_photo_url"];
+  const setSubField = (subField: string, value: unknown) =>
+    setFieldValue(editEntry.attribute, { ...showcase, [subField]: value });
+  // The upload finishes later, so the photo is added to the latest showcase instead of this one
+  const uploadProfilePhoto = (file: File) => uploadPhoto(editEntry.attribute + "_profile_photo_url", file, (filePath) =>
+    setFieldValue(editEntry.attribute, (values) => ({ ...values[editEntry.attribute] as Showcase, profile_photo_url: filePath })));
+  const profileImage = usePreparedImage(editEntry.image, PROFILE_PHOTO_IMAGE, uploadProfilePhoto);
+  // The images are many, they are scaled down without asking to crop each of them
+  const galleryImage = imageOptions(editEntry.image, { crop: false });
+
+  return (
+    <div className="col-span-6" onBlur={onBlur}>
+      <SectionHeader title={editEntry.attributeName} subName={editEntry.subName} />
+
+      <label htmlFor={editEntry.attribute + "_title"} className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+        Title
+        {editEntry.subTitle && (
+          <span className="block text-xs text-gray-500 dark:text-gray-400">{editEntry.subTitle}</span>
+        )}
+      </label>
+      <div className="my-2">
+        <input
+          id={editEntry.attribute + "_title"}
+          name={editEntry.attribute + "_title"}
+          type="text"
+          value={showcase["title"] || ""}
+          onChange={(event) => setSubField("title", event.target.value)}
+          className={inputClassName}
+          {...invalidProps(editEntry.attribute, errors)}
+        />
+      </div>
+
+      {isInstagram && (
+        <>
+          <div className="grid grid-cols-1 gap-y-6 gap-x-4 sm:grid-cols-6">
+            <div className="col-span-6 sm:col-span-3">
+              <label htmlFor={editEntry.attribute + "_handle"} className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                Handle
+              </label>
+              <div className="my-2">
+                <input
+                  id={editEntry.attribute + "_handle"}
+                  name={editEntry.attribute + "_handle"}
+                  type="text"
+                  placeholder="@"
+                  value={showcase["handle"] || ""}
+                  onChange={(event) => setSubField("handle", event.target.value)}
+                  className={inputClassName}
+                />
+              </div>
+            </div>
+
+            <div className="col-span-6 sm:col-span-3">
+              <label htmlFor={editEntry.attribute + "_url"} className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                Profile URL
+              </label>
+              <div className="my-2">
+                <input
+                  id={editEntry.attribute + "_url"}
+                  name={editEntry.attribute + "_url"}
+                  type="text"
+                  placeholder="https://www.instagram.com/username/"
+                  value={showcase["url"] || ""}
+                  onChange={(event) => setSubField("url", event.target.value)}
+                  className={inputClassName}
+                />
+              </div>
+            </div>
+          </div>
+
+          <div className="col-span-6 py-3">
+            <label htmlFor={editEntry.attribute + "_profile_photo_url"} className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+              Instagram Profile Photo
+            </label>
+            <div className="my-2 flex items-center">
+              <span className="h-12 w-12 overflow-hidden rounded-full bg-gray-300 dark:bg-gray-600">
+                {profilePhotoUrl && <img src={profilePhotoUrl} alt="" className="object-cover aspect-square" />}
+              </span>
+              <button
+                type="button"
+                onClick={() => shadowFileInput.current?.click()}
+                className={"ml-5 " + changePhotoButtonClassName}
+              >
+                Change
+              </button>
+              <input
+                id={editEntry.attribute + "_profile_photo_url"}
+                type="file"
+                accept=".jpg,.png"
+                onChange={(event) => pickPhoto(event, profileImage.pick)}
+                ref={shadowFileInput}
+                style={{ display: 'none' }}
+              />
+            </div>
+            {profileImage.cropper && <ImageCropper {...profileImage.cropper} />}
+            <UploadProgress fieldName={editEntry.attribute + "_profile_photo_url"} />
+          </div>
+        </>
+      )}
+
+      <FileUpload
+        fieldDisplayName="Images"
+        fieldDisplaySubName={`Select up to ${photoLimit} images to showcase${isInstagram ? " your Instagram" : ""}.`}
+        fieldName={editEntry.attribute + "_image_urls"}
+        files={showcase["image_urls"] || []}
+        entityId={entity && entity.id ? String(entity.id) : null}
+        supportedFileTypes={".jpg,.png"}
+        // The upload finishes later, so the images are added to the latest showcase
+        uponFileChange={(files) => setFieldValue(editEntry.attribute, (values) => ({ ...values[editEntry.attribute] as Showcase, image_urls: files }))}
+        isMultiple={true}
+        maxFiles={photoLimit}
+        prepareFile={galleryImage ? (file) => prepareImage(file, galleryImage) : undefined}
+      />
+      <FieldErrors attribute={editEntry.attribute} errors={errors} isValidating={isValidating} />
+    </div>
+  );
+};
+
+export const showcaseField: FieldTypeDefinition = {
+  render: ShowcaseField,
+  format: (value) => ({ image_urls: [], ...(value as Entity) }),
+  validate: (value, editEntry) => {
+    const showcase = (value || {}) as Entity;
+    const isInstagram = isInstagramShowcase(editEntry);
+    const numRequiredFields = isInstagram ? 5 : 2; // All fields required
+    const photoLimit = maxPhotos(editEntry);
+
+    // We need to add a type to image_url. And also we improved the validations
+    const numPhotos = Array.isArray(showcase.image_urls)
+      ? showcase.image_urls.filter((image_url: { state?: string }) =>
+        image_url &&
+        typeof image_url === 'object' &&
+        'state' in image_url &&
+        image_url.state !== StoredFileState.Deleted
+      ).length
+      : 0;
+    if (photoLimit && numPhotos > photoLimit) {
+      return [`Please make sure the ${editEntry.attributeName} section has no more than ${photoLimit} photos.`];
+    }
+
+    let filledCount = [
+      showcase["title"], numPhotos > 0
+    ].filter(e => e).length;
+
+    if (isInstagram) {
+      filledCount += [
+        showcase["handle"], showcase["url"], showcase["profile_photo_url"]
+      ].filter(e => e).length;
+    }
+
+    if (filledCount > 0 && filledCount < numRequiredFields) {
+      return [`Title${isInstagram ? ", Handle, Profile URL, Profile Photo," : ""} and Images are required for ${editEntry.attributeName}.`];
+    }
+    return [];
+  },
+};
@@ -0,0 +1,139 @@
+import React, { useEffect, useRef } from 'react';
+import { FieldErrors, FieldLabel } from './FieldLabel';
+import { changePhotoButtonClassName, invalidProps } from './shared';
+import type { FieldRenderProps, FieldTypeDefinition } from './registry';
+import {
+  drawStrokes, isSignatureDrawing, signatureToPng, SIGNATURE_HEIGHT, SIGNATURE_WIDTH, type SignaturePoint,
+} from '../../utils/signature';
+
+const SignatureField: React.FC<FieldRenderProps> = ({ editEntry, entity, requiredMark, setFieldValue, errors, isValidating, onBlur }) => {
+  const value = entity && entity[editEntry.attribute];
+  const strokes = isSignatureDrawing(value) ? value.strokes : [];
+  const canvas = useRef<HTMLCanvasElement>(null);
+  // The stroke being drawn, it is stored in the form once the pointer is released
+  const currentStroke = useRef<SignaturePoint[] | null>(null);
+
+  const redraw = () => {
+    const element = canvas.current;
+    const context = element?.getContext('2d');
+    if (!element || !context) return;
+    // The pad is drawn at the resolution of the screen and keeps the points in its own size
+    const ratio = window.devicePixelRatio || 1;
+    element.width = SIGNATURE_WIDTH * ratio;
+    element.height = SIGNATURE_HEIGHT * ratio;
+    context.setTransform(ratio, 0, 0, ratio, 0, 0);
+    drawStrokes(context, currentStroke.current ? [...strokes, currentStroke.current] : strokes);
+  };
+
+  // Undo, redo and clearing change the strokes from outside the pad
+  useEffect(redraw);
+
+  const pointAt = (event: React.PointerEvent<HTMLCanvasElement>): SignaturePoint => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return [
+      Math.round((event.clientX - rect.left) * SIGNATURE_WIDTH / rect.width * 10) / 10,
+      Math.round((event.clientY - rect.top) * SIGNATURE_HEIGHT / rect.height * 10) / 10,
+    ];
+  };
+
+  const setStrokes = (nextStrokes: SignaturePoint[][]) => setFieldValue(editEntry.attribute, nextStrokes.length
+    ? { width: SIGNATURE_WIDTH, height: SIGNATURE_HEIGHT, strokes: nextStrokes }
+    : "");
+
+  // Pointer events cover the mouse, pens and touch screens
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (event.pointerType === 'mouse' && event.button !== 0) return;
+    event.preventDefault();
+    event.currentTarget.setPointerCapture(event.pointerId);
+    event.currentTarget.focus();
+    currentStroke.current = [pointAt(event)];
+    redraw();
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!currentStroke.current) return;
+    currentStroke.current.push(pointAt(event));
+    redraw();
+  };
+
+  // Each stroke is a single change, so the undo of the form removes it too
+  const endStroke = () => {
+    if (!currentStroke.current) return;
+    const stroke = currentStroke.current;
+    currentStroke.current = null;
+    setStrokes([...strokes, stroke]);
+  };
+
+  // A stored signature is shown as it is, signing again replaces it on submit
+  if (typeof value === 'string' && value) {
+    return (
+      <div className="col-span-6" onBlur={onBlur}>
+        <FieldLabel editEntry={editEntry} requiredMark={requiredMark} />
+        <div className="my-2 flex items-end">
+          <img
+            src={value}
+            alt={`${editEntry.attributeName} signature`}
+            className="h-24 rounded-md border border-gray-300 dark:border-gray-600 bg-white object-contain p-2"
+          />
+          <button
+            type="button"
+            id={editEntry.attribute}
+            className={"ml-5 " + changePhotoButtonClassName}
+            onClick={() => setFieldValue(editEntry.attribute, "")}
+            {...invalidProps(editEntry.attribute, errors)}
+          >
+            Sign again
+          </button>
+        </div>
+        <FieldErrors attribute={editEntry.attribute} errors={errors} isValidating={isValidating} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="col-span-6" onBlur={onBlur}>
+      <FieldLabel editEntry={editEntry} requiredMark={requiredMark} />
+      <div className="my-2 max-w-xl">
+        {/* The pad stays white in dark mode, the ink is exported as it is drawn */}
+        <canvas
+          id={editEntry.attribute}
+          ref={canvas}
+          tabIndex={0}
+          aria-label={`${editEntry.attributeName}, sign with the mouse, a pen or a finger`}
+          className="block w-full cursor-crosshair rounded-md border border-gray-300 dark:border-gray-600 bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500 aria-[invalid=true]:border-red-500"
+          style={{ aspectRatio: `${SIGNATURE_WIDTH} / ${SIGNATURE_HEIGHT}`, touchAction: 'none' }}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={endStroke}
+          onPointerCancel={endStroke}
+          {...invalidProps(editEntry.attribute, errors)}
+        />
+        <div className="mt-2 flex items-center justify-between">
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            {strokes.length ? "Signed" : "Sign above"}
+          </p>
+          <div className="flex space-x-2">
+            <button type="button" className={changePhotoButtonClassName} disabled={!strokes.length} onClick={() => setStrokes(strokes.slice(0, -1))}>
+              Undo
+            </button>
+            <button type="button" className={changePhotoButtonClassName} disabled={!strokes.length} onClick={() => setStrokes([])}>
+              Clear
+            </button>
+          </div>
+        </div>
+      </div>
+      <FieldErrors attribute={editEntry.attribute} errors={errors} isValidating={isValidating} />
+    </div>
+  );
+};
+
+export const signatureField: FieldTypeDefinition = {
+  render: SignatureField,
+  // A pad without strokes is empty, so required signatures ask for one
+  format: (value) => (isSignatureDrawing(value) && !value.strokes.length ? "" : value),
+  // The strokes become a PNG uploaded like a photo, the stored signatures are submitted as they are
+  upload: async (value, editEntry, uploadFile) => {
+    if (!isSignatureDrawing(value)) return value;
+    return uploadFile(await signatureToPng(value, `${editEntry.attribute}.png`));
+  },
+};
@@ -0,0 +1,39 @@
+import React from 'react';
+import { FieldErrors, FieldLabel } from './FieldLabel';
+import { classNames, inputClassName, invalidProps } from './shared';
+import type { FieldRenderProps, FieldTypeDefinition } from './registry';
+
+const TextAreaField: React.FC<FieldRenderProps> = ({ editEntry, entity, requiredMark, setFieldValue, errors, isValidating, onBlur }) => {
+  const value = entity && entity[editEntry.attribute] ? String(entity[editEntry.attribute]) : "";
+  const characterCount = value.length;
+
+  return (
+    <div className="col-span-6" onBlur={onBlur}>
+      <FieldLabel editEntry={editEntry} requiredMark={requiredMark} />
+      <div className="my-2">
+        <textarea
+          id={editEntry.attribute}
+          name={editEntry.attribute}
+          rows={3}
+          className={inputClassName}
+          {...invalidProps(editEntry.attribute, errors)}
+          value={value}
+          onChange={(event) => setFieldValue(editEntry.attribute, event.target.value)}
+        />
+        {editEntry.characterCount && (
+          <p className={classNames(
+            "mt-3 text-sm",
+            characterCount > editEntry.characterCount ? "text-red-500" : "text-gray-500 dark:text-gray-400"
+          )}>
+            Character Count: {characterCount}/{editEntry.characterCount}
+          </p>
+        )}
+      </div>
+      <FieldErrors attribute={editEntry.attribute} errors={errors} isValidating={isValidating} />
+    </div>
+  );
+};
+
+export const textAreaField: FieldTypeDefinition = {
+  render: TextAreaField,
+};
@@ -0,0 +1,31 @@
+import React from 'react';
+import { FieldErrors, FieldLabel } from './FieldLabel';
+import { inputClassName, invalidProps } from './shared';
+import type { FieldRenderProps, FieldTypeDefinition } from './registry';
+
+const TextField: React.FC<FieldRenderProps> = ({ editEntry, entity, requiredMark, setFieldValue, errors, isValidating, onBlur }) => (
+  <div className="col-span-6 sm:col-span-3" onBlur={onBlur}>
+    <FieldLabel editEntry={editEntry} requiredMark={requiredMark} />
+    <div className="my-2">
+      <input
+        id={editEntry.attribute}
+        name={editEntry.attribute}
+        type="text"
+        autoComplete={editEntry.attribute}
+        value={entity && entity[editEntry.attribute] ? String(entity[editEntry.attribute]) : ""}
+        className={inputClassName}
+        {...invalidProps(editEntry.attribute, errors)}
+        // We add an onChange handler to update the entity state and to avoid it to be uncontrolled
+        onChange={(e: React.ChangeEvent<HTMLInputElement>) => setFieldValue(editEntry.attribute, e.target.value)}
+      />
+    </div>
+    {editEntry.info && (
+      <p className="text-sm text-gray-500 dark:text-gray-400">{editEntry.info}</p>
+    )}
+    <FieldErrors attribute={editEntry.attribute} errors={errors} isValidating={isValidating} />
+  </div>
+);
+
+export const textField: FieldTypeDefinition = {
+  render: TextField,
+};
@@ -0,0 +1,141 @@
+import React from 'react';
+import { FieldErrors, SectionHeader } from './FieldLabel';
+import { inputClassName, invalidProps, secondaryButtonClassName } from './shared';
+import type { FieldRenderProps, FieldTypeDefinition } from './registry';
+
+const MAX_LIST_SIZE = 10;
+
+type QuestionAnswer = Record<string, string>;
+
+// Rows of a list field. TextList stores an array and DoubleTextList an object keyed by the row index
+function listRows<T>(value: unknown): T[] {
+  if (!value || typeof value !== 'object') return [];
+  return Array.isArray(value) ? value : Object.values(value as Record<string, T>);
+}
+
+// Grows or shrinks the rows, new rows are filled with emptyRow
+function resizeRows<T>(rows: T[], size: number, emptyRow: T): T[] {
+  return Array.from({ length: size }, (_, i) => i < rows.length ? rows[i] : emptyRow);
+}
+
+function toIndexedRows(rows: QuestionAnswer[]): Record<string, QuestionAnswer> {
+  return Object.fromEntries(rows.map((row, i) => [i, row]));
+}
+
+interface ListButtonsProps {
+  listSize: number;
+  setListSize: (size: number) => void;
+}
+
+const ListButtons: React.FC<ListButtonsProps> = ({ listSize, setListSize }) => (
+  <div className="flex">
+    <button
+      type="button"
+      className={secondaryButtonClassName}
+      onClick={() => setListSize(Math.min(MAX_LIST_SIZE, listSize + 1))}
+    >
+      Add
+    </button>
+    <button
+      type="button"
+      className={"ml-3 " + secondaryButtonClassName}
+      onClick={() => setListSize(Math.max(1, listSize - 1))}
+    >
+      Remove
+    </button>
+  </div>
+);
+
+const TextListField: React.FC<FieldRenderProps> = ({ editEntry, entity, requiredMark, setFieldValue, errors, isValidating, onBlur }) => {
+  const rows = listRows<string>(entity && entity[editEntry.attribute]);
+  const setRow = (index: number, value: string) =>
+    setFieldValue(editEntry.attribute, rows.map((row, i) => i === index ? value : row));
+
+  return (
+    <div className="col-span-6" onBlur={onBlur}>
+      <SectionHeader title={editEntry.attributeName + requiredMark} />
+      {
+        rows.map((row, i) => (
+          <div className="my-2" key={i}>
+            <input
+              id={editEntry.attribute + "_listfieldsingleidx_" + i}
+              name={editEntry.attribute + "_listfieldsingleidx_" + i}
+              type="text"
+              value={row || ""}
+              className={inputClassName}
+              {...invalidProps(editEntry.attribute, errors)}
+              onChange={(event) => setRow(i, event.target.value)}
+            />
+          </div>
+        ))
+      }
+      <FieldErrors attribute={editEntry.attribute} errors={errors} isValidating={isValidating} />
+      <ListButtons
+        listSize={rows.length}
+        setListSize={(size) => setFieldValue(editEntry.attribute, resizeRows(rows, size, ""))}
+      />
+    </div>
+  );
+};
+
+const DoubleTextListField: React.FC<FieldRenderProps> = ({ editEntry, entity, requiredMark, setFieldValue, errors, isValidating, onBlur }) => {
+  const rows = listRows<QuestionAnswer>(entity && entity[editEntry.attribute]);
+  const setRow = (index: number, column: 0 | 1, value: string) =>
+    setFieldValue(editEntry.attribute, toIndexedRows(rows.map((row, i) => i === index ? { ...row, [column]: value } : row)));
+
+  return (
+    <div className="col-span-6" onBlur={onBlur}>
+      <SectionHeader title={editEntry.attributeName + requiredMark} subName={editEntry.subName} />
+      {
+        rows.map((row, i) => (
+          <React.Fragment key={i}>
+            <label htmlFor={editEntry.attribute + "_listfieldidx_" + i + "_0"} className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+              {"Question " + (i + 1).toString()}
+            </label>
+            <div className="my-2">
+              <input
+                id={editEntry.attribute + "_listfieldidx_" + i + "_0"}
+                name={editEntry.attribute + "_listfieldidx_" + i + "_0"}
+                type="text"
+                value={row[0] || ""}
+                className={inputClassName}
+                {...invalidProps(editEntry.attribute, errors)}
+                onChange={(event) => setRow(i, 0, event.target.value)}
+              />
+            </div>
+            <label htmlFor={editEntry.attribute + "_listfieldidx_" + i + "_1"} className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+              {"Answer " + (i + 1).toString()}
+            </label>
+            <div className="my-2">
+              <input
+                id={editEntry.attribute + "_listfieldidx_" + i + "_1"}
+                name={editEntry.attribute + "_listfieldidx_" + i + "_1"}
+                type="text"
+                value={row[1] || ""}
+                className={inputClassName}
+                {...invalidProps(editEntry.attribute, errors)}
+                onChange={(event) => setRow(i, 1, event.target.value)}
+              />
+            </div>
+          </React.Fragment>
+        ))
+      }
+      <FieldErrors attribute={editEntry.attribute} errors={errors} isValidating={isValidating} />
+      <ListButtons
+        listSize={rows.length}
+        setListSize={(size) => setFieldValue(editEntry.attribute, toIndexedRows(resizeRows(rows, size, { 0: "", 1: "" })))}
+      />
+    </div>
+  );
+};
+
+export const textListField: FieldTypeDefinition = {
+  render: TextListField,
+  format: (value) => listRows<string>(value).map((row) => row || ""),
+};
+
+export const doubleTextListField: FieldTypeDefinition = {
+  render: DoubleTextListField,
+  // Rows are stored as { "0": { "0": question, "1": answer } }
+  format: (value) => toIndexedRows(listRows<QuestionAnswer>(value).map((row) => ({ 0: row[0] || "", 1: row[1] || "" }))),
+};
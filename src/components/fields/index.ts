@@ -0,0 +1,52 @@
+/*
+ * Field registry with the built-in field types already registered.
+ * Custom field types are added with registerFieldType(type, { render, format, validate })
+ */
+import { EditEntryType } from '../../data/editEntry';
+import { registerFieldType } from './registry';
+import { textField } from './TextField';
+import { selectField } from './SelectField';
+import { dateField, dateTimeField, dateRangeField } from './DateField';
+import { numberField, currencyField } from './NumberField';
+import { textListField, doubleTextListField } from './TextListField';
+import { checkboxField } from './CheckboxField';
+import { radioField } from './RadioField';
+import { textAreaField } from './TextAreaField';
+import { fileField } from './FileField';
+import { photoField, profilePhotoField } from './PhotoField';
+import { articleField } from './ArticleField';
+import { addressField } from './AddressField';
+import { showcaseField } from './ShowcaseField';
+import { pillListField } from './PillListField';
+import { groupField } from './GroupField';
+import { signatureField } from './SignatureField';
+import { computedField } from './ComputedField';
+import { phoneField } from './PhoneField';
+
+registerFieldType(EditEntryType.Text, textField);
+registerFieldType(EditEntryType.Select, selectField);
+registerFieldType(EditEntryType.Date, dateField);
+registerFieldType(EditEntryType.DateTime, dateTimeField);
+registerFieldType(EditEntryType.DateRange, dateRangeField);
+registerFieldType(EditEntryType.Number, numberField);
+registerFieldType(EditEntryType.Currency, currencyField);
+registerFieldType(EditEntryType.TextList, textListField);
+registerFieldType(EditEntryType.DoubleTextList, doubleTextListField);
+registerFieldType(EditEntryType.Checkbox, checkboxField);
+registerFieldType(EditEntryType.Radio, radioField);
+registerFieldType(EditEntryType.TextArea, textAreaField);
+registerFieldType(EditEntryType.File, fileField);
+registerFieldType(EditEntryType.FilePhoto, fileField);
+registerFieldType(EditEntryType.ProfilePhoto, profilePhotoField);
+registerFieldType(EditEntryType.Photo, photoField);
+registerFieldType(EditEntryType.Article, articleField);
+registerFieldType(EditEntryType.Address, addressField);
+registerFieldType(EditEntryType.Showcase, showcaseField);
+registerFieldType(EditEntryType.PillList, pillListField);
+registerFieldType(EditEntryType.Group, groupField);
+registerFieldType(EditEntryType.Signature, signatureField);
+registerFieldType(EditEntryType.Computed, computedField);
+registerFieldType(EditEntryType.Phone, phoneField);
+
+export { registerFieldType, getFieldType } from './registry';
+export type { FieldRenderProps, FieldTypeDefinition, SetFieldValue } from './registry';
@@ -0,0 +1,56 @@
+import type { ComponentType } from 'react';
+import type { EditEntry, Entity, FieldTypeName } from '../../data/editEntry';
+
+/*
+ * Stores the value of a field in the form state. Callbacks that finish later (like uploads) pass a
+ * function building the value from the latest values, so they don't overwrite the edits made meanwhile
+ */
+export interface SetFieldValue {
+  (attribute: string, update: (values: Entity) => unknown): void;
+  (attribute: string, value: unknown): void;
+}
+
+// Props every field renderer receives from EditForm
+export interface FieldRenderProps {
+  editEntry: EditEntry;
+  // Current values of the form
+  entity: Entity;
+  requiredMark: string;
+  // Fields are controlled, every change goes through it
+  setFieldValue: SetFieldValue;
+  // Uploads the file and calls onUploaded with its path once done
+  uploadPhoto: (fieldName: string, file: File, onUploaded: (filePath: string) => void) => void;
+  // Current errors of the field, shown under it
+  errors: string[];
+  // True while an async validation of the field is running
+  isValidating: boolean;
+  // Fields call it when they lose the focus, for the forms validated on blur
+  onBlur: () => void;
+}
+
+/*
+ * A field type is made of:
+ *  - render: the component that draws the field, it reads its value from entity and writes it with setFieldValue
+ *  - format: turns the value held while editing into the submitted one (trimming empty rows, adding defaults...).
+ *    When missing, the value is submitted as it is
+ *  - validate: checks specific to the field type, run on the formatted value. Returns the error messages, empty when valid
+ *  - upload: runs on submit once the form is valid, for values kept in the browser until then (like a drawn signature).
+ *    It uploads them with uploadFile and resolves with the value to submit
+ */
+export interface FieldTypeDefinition {
+  render: ComponentType<FieldRenderProps>;
+  format?: (value: unknown, editEntry: EditEntry) => unknown;
+  validate?: (value: unknown, editEntry: EditEntry) => string[];
+  upload?: (value: unknown, editEntry: EditEntry, uploadFile: (file: File) => Promise<string>) => Promise<unknown>;
+}
+
+const fieldTypes = new Map<string, FieldTypeDefinition>();
+
+// Registers a field type, replacing any previous definition with the same name
+export function registerFieldType(type: FieldTypeName, definition: FieldTypeDefinition): void {
+  fieldTypes.set(type, definition);
+}
+
+export function getFieldType(type: FieldTypeName): FieldTypeDefinition | undefined {
+  return fieldTypes.get(type);
+}
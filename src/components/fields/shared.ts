@@ -0,0 +1,54 @@
+import toast from 'react-hot-toast';
+import type { ImageOptions, SelectOption } from '../../data/editEntry';
+
+// Helper function for class names
+// This function can have many arguments, each one of them can be a string, boolean or undefined
+// String for the class name and boolean for the filter condition
+export function classNames(...classes: (string | boolean | undefined)[]) {
+  return classes.filter(Boolean).join(' ')
+}
+
+export const inputClassName = "block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm aria-[invalid=true]:border-red-500 dark:aria-[invalid=true]:border-red-400";
+
+export const secondaryButtonClassName = "rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 py-2 px-4 text-sm font-medium text-gray-700 dark:text-gray-300 shadow-sm hover:bg-gray-50 dark:hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2";
+
+export const changePhotoButtonClassName = "rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 py-2 px-3 text-sm font-medium leading-4 text-gray-700 dark:text-gray-300 shadow-sm hover:bg-gray-50 dark:hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2";
+
+export const MAX_PHOTO_SIZE = 10090000;
+
+// The photos are cropped to the shape they are shown with, profile photos are only shown small
+export const PROFILE_PHOTO_IMAGE: ImageOptions = { aspectRatio: 1, maxDimension: 512 };
+export const PHOTO_IMAGE: ImageOptions = { aspectRatio: 16 / 9 };
+
+/*
+ * Takes the photo picked in a file input and hands it over if it is under the size limit. The input is emptied,
+ * so picking the same file again (after cancelling its crop) changes it again
+ */
+export function pickPhoto(event: React.ChangeEvent<HTMLInputElement>, onPick: (file: File) => void): void {
+  const file = event.target.files && event.target.files[0];
+  event.target.value = "";
+  if (!file) return;
+  if (file.size > MAX_PHOTO_SIZE) {
+    toast.error("Please upload file under 10MB.");
+    return;
+  }
+  onPick(file);
+}
+
+// Id of the error list of a field, referenced by its inputs
+export function errorId(attribute: string): string {
+  return attribute + "-error";
+}
+
+// Accessibility attributes of an input, so screen readers announce the field errors
+export function invalidProps(attribute: string, errors: string[]) {
+  return {
+    'aria-invalid': errors.length > 0,
+    'aria-describedby': errors.length > 0 ? errorId(attribute) : undefined,
+  };
+}
+
+// Options of an entry as objects, plain strings are their own value and label
+export function normalizeOptions(options: (string | SelectOption)[] = []): SelectOption[] {
+  return options.map((option) => typeof option === 'string' ? { value: option, label: option } : option);
+}
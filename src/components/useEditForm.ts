@@ -0,0 +1,346 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { EditEntryType, type EditEntry, type Entity } from '../data/editEntry';
+import { getFieldType, type SetFieldValue } from './fields';
+import { isEntryVisible } from '../utils/visibility';
+import { validateEntry } from '../utils/validation';
+import { AsyncValidationRunner, CHECK_FAILED, getAsyncRules } from '../utils/asyncValidation';
+import { isAbortError } from '../services/storage';
+import { changedTextPath, isTypingEdit, textAt } from '../utils/editHistory';
+import { computedEntries, withComputedValues } from '../utils/computed';
+
+export type ValidationMode = 'submit' | 'blur' | 'change';
+
+const MAX_HISTORY = 100;
+// Typing in the same text is one undo step, until the user stops typing for this long
+const TYPING_PAUSE = 1000;
+
+export interface EditFormOptions {
+  validateOn?: ValidationMode; // Fields are always validated on submit, this adds blur or change
+  collectAllErrors?: boolean; // Defaults to true. When false the validation stops at the first error
+}
+
+export interface EditFormSubmitResult {
+  isValid: boolean;
+  // Values of the visible fields as their field types submit them, hidden fields keep the value they had
+  values: Entity;
+  errors: Record<string, string[]>;
+  // Empty when the submit was cancelled by a change made while the async checks were running
+  invalidEntries: EditEntry[];
+}
+
+export interface EditFormState {
+  values: Entity;
+  // Sync and async errors of each field
+  errors: Record<string, string[]>;
+  touched: Record<string, boolean>;
+  // Fields whose value differs from the initial entity
+  dirty: Record<string, boolean>;
+  isDirty: boolean;
+  // Fields with an async check running
+  validating: Record<string, boolean>;
+  visibleEntries: EditEntry[];
+  setValue: SetFieldValue;
+  // Sets several values at once, as a single undo step
+  setValues: (values: Entity) => void;
+  undo: () => void;
+  redo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  // Marks the field as visited, EditForm calls it when a field loses the focus
+  touch: (attribute: string) => void;
+  // Goes back to the initial entity, or starts over from a new one
+  reset: (entity?: Entity) => void;
+  // Checks the given fields like submit does, or all of them. The other fields keep their errors
+  validate: (attributes?: string[]) => Promise<EditFormSubmitResult>;
+  submit: () => Promise<EditFormSubmitResult>;
+}
+
+// The value a field submits. Field types can clean up what they hold while editing
+function getSubmitValue(editEntry: EditEntry, values: Entity): unknown {
+  const fieldType = getFieldType(editEntry.type || EditEntryType.Text);
+  const value = values[editEntry.attribute];
+  return fieldType?.format ? fieldType.format(value, editEntry) : value;
+}
+
+// Errors of a single field against the current values
+function getEntryErrors(editEntry: EditEntry, values: Entity, collectAll: boolean): string[] {
+  const fieldType = getFieldType(editEntry.type || EditEntryType.Text);
+  return validateEntry(editEntry, getSubmitValue(editEntry, values), values, fieldType?.validate, collectAll);
+}
+
+// Objects are rebuilt on every change, so they are compared by content
+function hasChanged(previous: unknown, next: unknown): boolean {
+  return previous !== next && JSON.stringify(previous) !== JSON.stringify(next);
+}
+
+function withEntryErrors(errors: Record<string, string[]>, attribute: string, entryErrors: string[]): Record<string, string[]> {
+  if (!entryErrors.length && !errors[attribute]) return errors;
+  const updatedErrors = { ...errors };
+  if (entryErrors.length) {
+    updatedErrors[attribute] = entryErrors;
+  } else {
+    delete updatedErrors[attribute];
+  }
+  return updatedErrors;
+}
+
+/*
+ * State of an edit form: the values, which fields were touched or changed and their errors.
+ * EditForm renders it, and it can be used on its own to drive a form from code
+ */
+export function useEditForm(editEntries: EditEntry[], initialEntity: Entity, options: EditFormOptions = {}): EditFormState {
+  const validateOn = options.validateOn ?? 'submit';
+  const collectAllErrors = options.collectAllErrors ?? true;
+
+  // Computed fields are kept up to date in the values, so they are validated and submitted like the others.
+  // Parsing their formulas checks them, a bad formula or a circular dependency throws here
+  const computed = useMemo(() => computedEntries(editEntries), [editEntries]);
+  const computedRef = useRef(computed);
+  computedRef.current = computed;
+
+  const [initialValues, setInitialValues] = useState<Entity>(() => withComputedValues(computed, initialEntity));
+  const [values, setCurrentValues] = useState<Entity>(initialValues);
+  const [errors, setErrors] = useState<Record<string, string[]>>({});
+  // Async errors are kept apart, so the sync checks running on every change don't clear them
+  const [asyncErrors, setAsyncErrors] = useState<Record<string, string[]>>({});
+  const [touched, setTouched] = useState<Record<string, boolean>>({});
+  const [validating, setValidating] = useState<Record<string, boolean>>({});
+
+  // setValue can be called several times before the next render, so the latest values live in refs
+  const valuesRef = useRef<Entity>(initialValues);
+  const initialValuesRef = useRef<Entity>(initialValues);
+  const touchedRef = useRef<Record<string, boolean>>({});
+
+  // Values before each undoable step, and the ones undone. The last typing tells whether the next key stroke joins its step
+  const history = useRef<{ past: Entity[]; future: Entity[] }>({ past: [], future: [] });
+  const lastTyping = useRef<{ attribute: string; path: string; at: number } | null>(null);
+  const [historySize, setHistorySize] = useState({ past: 0, future: 0 });
+
+  // One runner for the life of the form, the running checks are aborted when it unmounts
+  const asyncRunner = useRef<AsyncValidationRunner | null>(null);
+  if (!asyncRunner.current) {
+    asyncRunner.current = new AsyncValidationRunner((attribute, isPending) => {
+      setValidating((currValidating) => currValidating[attribute] === isPending ? currValidating : { ...currValidating, [attribute]: isPending });
+    });
+  }
+  useEffect(() => {
+    const runner = asyncRunner.current;
+    return () => runner?.cancelAll();
+  }, []);
+
+  // Checks the given fields again, hidden fields have no errors. With onlyInvalid only the fields already showing an error are checked
+  const validateEntries = (entries: EditEntry[], currValues: Entity, onlyInvalid: boolean = false) => {
+    if (!entries.length) return;
+    setErrors((currErrors) => entries.reduce((updatedErrors, editEntry) => {
+      if (onlyInvalid && !currErrors[editEntry.attribute]) return updatedErrors;
+      const entryErrors = isEntryVisible(editEntry, currValues) ? getEntryErrors(editEntry, currValues, collectAllErrors) : [];
+      return withEntryErrors(updatedErrors, editEntry.attribute, entryErrors);
+    }, currErrors));
+  };
+
+  // The async rules only run once the sync ones pass, there is no point asking the server about an invalid value
+  const scheduleAsyncChecks = (entries: EditEntry[], currValues: Entity) => {
+    for (const editEntry of entries) {
+      const rules = getAsyncRules(editEntry.validations);
+      if (!rules.length) continue;
+      setAsyncErrors((currAsyncErrors) => withEntryErrors(currAsyncErrors, editEntry.attribute, []));
+      if (!isEntryVisible(editEntry, currValues) || getEntryErrors(editEntry, currValues, false).length) {
+        asyncRunner.current?.cancel(editEntry.attribute);
+        continue;
+      }
+      asyncRunner.current?.schedule(editEntry.attribute, getSubmitValue(editEntry, currValues), currValues, rules,
+        (entryErrors) => setAsyncErrors((currAsyncErrors) => withEntryErrors(currAsyncErrors, editEntry.attribute, entryErrors)));
+    }
+  };
+
+  // Stores the new values and checks the fields that changed
+  const applyValues = (changedValues: Entity) => {
+    const nextValues = withComputedValues(computed, changedValues);
+    const previousValues = valuesRef.current;
+    valuesRef.current = nextValues;
+    setCurrentValues(nextValues);
+
+    // Async checks are debounced, so they run on every change whatever the validation mode
+    const changedEntries = editEntries.filter((editEntry) =>
+      hasChanged(previousValues[editEntry.attribute], nextValues[editEntry.attribute])
+    );
+    validateEntries(changedEntries, nextValues, validateOn !== 'change');
+    scheduleAsyncChecks(changedEntries, nextValues);
+  };
+
+  const syncHistorySize = () => setHistorySize({ past: history.current.past.length, future: history.current.future.length });
+
+  /*
+   * Adds an undo step for a change. Key strokes in the same text right after each other join the step of the first one.
+   * Anything else is a step of its own: adding a pill or a row, replacing a photo, pasting, picking an option...
+   */
+  const recordStep = (previousValues: Entity, nextValues: Entity, attribute?: string) => {
+    const now = Date.now();
+    const lastStroke = lastTyping.current;
+    const path = attribute !== undefined ? changedTextPath(previousValues[attribute], nextValues[attribute]) : null;
+    const isTyping = attribute !== undefined && path !== null &&
+      isTypingEdit(textAt(previousValues[attribute], path), textAt(nextValues[attribute], path));
+    lastTyping.current = isTyping ? { attribute: attribute!, path: path!, at: now } : null;
+    if (isTyping && lastStroke && lastStroke.attribute === attribute && lastStroke.path === path && now - lastStroke.at < TYPING_PAUSE) {
+      return;
+    }
+    history.current = { past: [...history.current.past, previousValues].slice(-MAX_HISTORY), future: [] };
+    syncHistorySize();
+  };
+
+  const setValue: SetFieldValue = (attribute: string, value: unknown) => {
+    const previousValues = valuesRef.current;
+    const nextValue = typeof value === 'function' ? (value as (values: Entity) => unknown)(previousValues) : value;
+    const nextValues = { ...previousValues, [attribute]: nextValue };
+    if (hasChanged(previousValues[attribute], nextValue)) recordStep(previousValues, nextValues, attribute);
+    applyValues(nextValues);
+  };
+
+  const setValues = (changes: Entity) => {
+    const previousValues = valuesRef.current;
+    const nextValues = { ...previousValues, ...changes };
+    recordStep(previousValues, nextValues);
+    applyValues(nextValues);
+  };
+
+  const undo = () => {
+    const { past, future } = history.current;
+    if (!past.length) return;
+    history.current = { past: past.slice(0, -1), future: [valuesRef.current, ...future] };
+    lastTyping.current = null;
+    syncHistorySize();
+    applyValues(past[past.length - 1]);
+  };
+
+  const redo = () => {
+    const { past, future } = history.current;
+    if (!future.length) return;
+    history.current = { past: [...past, valuesRef.current], future: future.slice(1) };
+    lastTyping.current = null;
+    syncHistorySize();
+    applyValues(future[0]);
+  };
+
+  const touch = (attribute: string) => {
+    touchedRef.current = { ...touchedRef.current, [attribute]: true };
+    setTouched(touchedRef.current);
+    if (validateOn === 'blur') {
+      validateEntries(editEntries.filter((editEntry) => editEntry.attribute === attribute), valuesRef.current);
+    }
+  };
+
+  const reset = useCallback((entity?: Entity) => {
+    asyncRunner.current?.cancelAll();
+    const nextValues = withComputedValues(computedRef.current, entity ?? initialValuesRef.current);
+    initialValuesRef.current = nextValues;
+    valuesRef.current = nextValues;
+    setInitialValues(nextValues);
+    setCurrentValues(nextValues);
+    history.current = { past: [], future: [] };
+    lastTyping.current = null;
+    setHistorySize({ past: 0, future: 0 });
+    touchedRef.current = {};
+    setTouched({});
+    setErrors({});
+    setAsyncErrors({});
+  }, []);
+
+  // A new entity from the parent starts the form over. Entities built on every render have the same content and are ignored
+  useEffect(() => {
+    if (hasChanged(initialValuesRef.current, withComputedValues(computedRef.current, initialEntity))) reset(initialEntity);
+  }, [initialEntity, reset]);
+
+  const validate = async (attributes?: string[]): Promise<EditFormSubmitResult> => {
+    const currValues = valuesRef.current;
+    const checkedEntries = attributes ? editEntries.filter((editEntry) => attributes.includes(editEntry.attribute)) : editEntries;
+    // Fields hidden by their rules are neither required nor validated
+    const visibleEntries = checkedEntries.filter((editEntry) => isEntryVisible(editEntry, currValues));
+
+    touchedRef.current = { ...touchedRef.current };
+    visibleEntries.forEach((editEntry) => touchedRef.current[editEntry.attribute] = true);
+    setTouched(touchedRef.current);
+
+    const formErrors: Record<string, string[]> = {};
+    for (const editEntry of visibleEntries) {
+      const entryErrors = getEntryErrors(editEntry, currValues, collectAllErrors);
+      if (entryErrors.length) {
+        formErrors[editEntry.attribute] = entryErrors;
+        if (!collectAllErrors) break;
+      }
+    }
+    setErrors((currErrors) => checkedEntries.reduce((updatedErrors, editEntry) =>
+      withEntryErrors(updatedErrors, editEntry.attribute, formErrors[editEntry.attribute] || []), currErrors));
+
+    const invalidEntries = visibleEntries.filter((editEntry) => formErrors[editEntry.attribute]);
+    if (invalidEntries.length) {
+      return { isValid: false, values: currValues, errors: formErrors, invalidEntries };
+    }
+
+    // The sync checks passed, we wait for the async ones. Checks already running for the same value are reused
+    const asyncEntries = visibleEntries.filter((editEntry) => getAsyncRules(editEntry.validations).length);
+    const settledResults = await Promise.allSettled(asyncEntries.map((editEntry) => asyncRunner.current!.run(
+      editEntry.attribute, getSubmitValue(editEntry, currValues), currValues, getAsyncRules(editEntry.validations)
+    )));
+    // A check was cancelled because a value changed while submitting
+    if (settledResults.some((result) => result.status === 'rejected' && isAbortError(result.reason))) {
+      return { isValid: false, values: currValues, errors: {}, invalidEntries: [] };
+    }
+    // Checks that failed for another reason are errors of their field, so the user can retry
+    const asyncResults = settledResults.map((result) => (result.status === 'fulfilled' ? result.value : [CHECK_FAILED]));
+    const formAsyncErrors: Record<string, string[]> = {};
+    asyncEntries.forEach((editEntry, index) => {
+      if (asyncResults[index].length) formAsyncErrors[editEntry.attribute] = asyncResults[index];
+    });
+    setAsyncErrors((currAsyncErrors) => checkedEntries.reduce((updatedAsyncErrors, editEntry) =>
+      withEntryErrors(updatedAsyncErrors, editEntry.attribute, formAsyncErrors[editEntry.attribute] || []), currAsyncErrors));
+
+    const asyncInvalidEntries = asyncEntries.filter((editEntry) => formAsyncErrors[editEntry.attribute]);
+    if (asyncInvalidEntries.length) {
+      return { isValid: false, values: currValues, errors: formAsyncErrors, invalidEntries: asyncInvalidEntries };
+    }
+
+    const submittedValues: Entity = { ...currValues };
+    for (const editEntry of visibleEntries) {
+      submittedValues[editEntry.attribute] = getSubmitValue(editEntry, currValues);
+    }
+    return { isValid: true, values: submittedValues, errors: {}, invalidEntries: [] };
+  };
+
+  const submit = () => validate();
+
+  const mergedErrors = useMemo(() => {
+    const allErrors: Record<string, string[]> = { ...errors };
+    for (const [attribute, entryErrors] of Object.entries(asyncErrors)) {
+      allErrors[attribute] = [...(allErrors[attribute] || []), ...entryErrors];
+    }
+    return allErrors;
+  }, [errors, asyncErrors]);
+
+  const dirty = useMemo(() => {
+    const dirtyFields: Record<string, boolean> = {};
+    for (const editEntry of editEntries) {
+      if (hasChanged(initialValues[editEntry.attribute], values[editEntry.attribute])) dirtyFields[editEntry.attribute] = true;
+    }
+    return dirtyFields;
+  }, [editEntries, initialValues, values]);
+
+  return {
+    values,
+    errors: mergedErrors,
+    touched,
+    dirty,
+    isDirty: Object.keys(dirty).length > 0,
+    validating,
+    visibleEntries: editEntries.filter((editEntry) => isEntryVisible(editEntry, values)),
+    setValue,
+    setValues,
+    undo,
+    redo,
+    canUndo: historySize.past > 0,
+    canRedo: historySize.future > 0,
+    touch,
+    reset,
+    validate,
+    submit,
+  };
+}
@@ -0,0 +1,133 @@
+import { useEffect, useRef, useState } from 'react';
+import type { StoredFile } from '../data/common';
+import type { EditEntry, Entity } from '../data/editEntry';
+import { clearDraft, draftKey, loadDraft, saveDraft, type FormDraft } from '../services/drafts';
+import type { EditFormState } from './useEditForm';
+
+const DRAFT_THROTTLE = 1000;
+
+export interface FormDraftState {
+  // Draft found on mount, until the user restores or discards it
+  pendingDraft: FormDraft | null;
+  restore: () => void;
+  discard: () => void;
+  // Removes the draft after a successful submit, nothing is saved again until the entity changes
+  clear: () => void;
+}
+
+// Entities saved after the draft was written make the draft stale
+function entityUpdatedAt(entity: Entity): number {
+  const updatedAt = entity && (entity.updated_at ?? entity.updatedAt);
+  const time = typeof updatedAt === 'string' || typeof updatedAt === 'number' ? new Date(updatedAt).getTime() : NaN;
+  return isNaN(time) ? 0 : time;
+}
+
+function findNewerDraft(key: string, entity: Entity): FormDraft | null {
+  const draft = loadDraft(key);
+  if (!draft) return null;
+  if (draft.savedAt <= entityUpdatedAt(entity)) {
+    clearDraft(key);
+    return null;
+  }
+  return draft;
+}
+
+/*
+ * Saves the unsaved changes of a form, at most once per second and when the page is closed.
+ * Without a draftId nothing is stored. While a restore is pending nothing is saved, so the old draft is not overwritten
+ */
+export function useFormDraft(
+  draftId: string | undefined,
+  editEntries: EditEntry[],
+  entity: Entity,
+  form: EditFormState,
+  uploads: Record<string, StoredFile>,
+  onRestoreUploads: (uploads: Record<string, StoredFile>) => void,
+): FormDraftState {
+  const key = draftId ? draftKey(draftId, entity && entity.id) : null;
+  const [pendingDraft, setPendingDraft] = useState<FormDraft | null>(() => key ? findNewerDraft(key, entity) : null);
+
+  const saveTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const lastSavedAt = useRef<number>(0);
+  // What would be saved right now, written when the page is closed or the form unmounted before the timer fires
+  const unsavedDraft = useRef<FormDraft | null>(null);
+  /*
+   * Set by clear. The submit can still change the values (uploaded files replace the local ones), the form stays
+   * dirty until the saved entity comes back, and these changes must not be saved as a new draft
+   */
+  const isSubmitted = useRef<boolean>(false);
+
+  const cancelSave = () => {
+    if (saveTimer.current) clearTimeout(saveTimer.current);
+    saveTimer.current = null;
+    unsavedDraft.current = null;
+  };
+
+  // Parents can pass a new object on every render, the entity is compared by content
+  const entityContent = JSON.stringify(entity);
+  useEffect(() => {
+    isSubmitted.current = false;
+  }, [key, entityContent]);
+
+  useEffect(() => {
+    if (!key || pendingDraft || isSubmitted.current) return;
+    if (!form.isDirty) {
+      // Back to the saved values, there is nothing to restore anymore
+      cancelSave();
+      if (lastSavedAt.current) clearDraft(key);
+      return;
+    }
+    unsavedDraft.current = { savedAt: Date.now(), values: form.values, uploads };
+    const wait = Math.max(0, lastSavedAt.current + DRAFT_THROTTLE - Date.now());
+    saveTimer.current = setTimeout(() => {
+      if (!unsavedDraft.current) return;
+      saveDraft(key, { ...unsavedDraft.current, savedAt: Date.now() });
+      lastSavedAt.current = Date.now();
+      unsavedDraft.current = null;
+    }, wait);
+    return () => {
+      if (saveTimer.current) clearTimeout(saveTimer.current);
+    };
+  }, [key, pendingDraft, form.isDirty, form.values, uploads]);
+
+  useEffect(() => {
+    if (!key) return;
+    const flush = () => {
+      if (unsavedDraft.current) saveDraft(key, { ...unsavedDraft.current, savedAt: Date.now() });
+    };
+    window.addEventListener('pagehide', flush);
+    // Leaving the form without closing the page keeps the changes too
+    return () => {
+      window.removeEventListener('pagehide', flush);
+      flush();
+    };
+  }, [key]);
+
+  // The restored values go through setValues, so they are validated, marked as dirty and undone in one step
+  const restore = () => {
+    if (!pendingDraft) return;
+    const restoredValues: Entity = {};
+    for (const editEntry of editEntries) {
+      if (editEntry.attribute in pendingDraft.values) {
+        restoredValues[editEntry.attribute] = pendingDraft.values[editEntry.attribute];
+      }
+    }
+    form.setValues(restoredValues);
+    onRestoreUploads(pendingDraft.uploads);
+    setPendingDraft(null);
+  };
+
+  const discard = () => {
+    if (key) clearDraft(key);
+    setPendingDraft(null);
+  };
+
+  const clear = () => {
+    cancelSave();
+    isSubmitted.current = true;
+    lastSavedAt.current = 0;
+    if (key) clearDraft(key);
+  };
+
+  return { pendingDraft, restore, discard, clear };
+}
@@ -0,0 +1,110 @@
+import { useState } from 'react';
+import type { EditEntry } from '../data/editEntry';
+import type { EditFormState, EditFormSubmitResult } from './useEditForm';
+
+export interface EditFormStep {
+  title: string;
+  description?: string;
+  // Attributes of the entries shown in the step. Entries not listed in any step go to the last one
+  attributes: string[];
+}
+
+export interface FormStepsState {
+  // Index of the current step, steps.length is the review step
+  currentStep: number;
+  isReview: boolean;
+  completedSteps: number[];
+  // Visible entries of the current step
+  currentEntries: EditEntry[];
+  // Steps whose entries are all hidden are skipped
+  isStepSkipped: (step: number) => boolean;
+  canGoTo: (step: number) => boolean;
+  goTo: (step: number) => void;
+  // Validates the current step and moves forward when it is valid
+  next: () => Promise<EditFormSubmitResult>;
+  back: () => void;
+  // Goes to the step of the first invalid entry, after a failed submit from the review step
+  goToInvalid: (invalidEntries: EditEntry[]) => void;
+}
+
+/*
+ * Navigation of a form split in steps. Each step is validated before moving forward,
+ * and the steps already completed can be visited again
+ */
+export function useFormSteps(steps: EditFormStep[], editEntries: EditEntry[], form: EditFormState): FormStepsState {
+  const [currentStep, setCurrentStep] = useState<number>(0);
+  const [completedSteps, setCompletedSteps] = useState<number[]>([]);
+  const reviewStep = steps.length;
+
+  const listedAttributes = new Set(steps.flatMap((step) => step.attributes));
+  const stepAttributes = (step: number): string[] => {
+    if (step !== steps.length - 1) return steps[step]?.attributes || [];
+    return [
+      ...steps[step].attributes,
+      ...editEntries.filter((editEntry) => !listedAttributes.has(editEntry.attribute)).map((editEntry) => editEntry.attribute),
+    ];
+  };
+  const stepEntries = (step: number): EditEntry[] => {
+    const attributes = stepAttributes(step);
+    return form.visibleEntries.filter((editEntry) => attributes.includes(editEntry.attribute));
+  };
+
+  const isStepSkipped = (step: number) => step < reviewStep && !stepEntries(step).length;
+
+  // Next step that is not skipped, the review step when there is none left
+  const findNextStep = (step: number): number => {
+    let nextStep = step + 1;
+    while (nextStep < reviewStep && isStepSkipped(nextStep)) nextStep++;
+    return nextStep;
+  };
+
+  const findPreviousStep = (step: number): number => {
+    let previousStep = step - 1;
+    while (previousStep > 0 && isStepSkipped(previousStep)) previousStep--;
+    return Math.max(0, previousStep);
+  };
+
+  const canGoTo = (step: number): boolean => {
+    if (step === currentStep || completedSteps.includes(step)) return !isStepSkipped(step);
+    // The review step opens once every step before it is completed
+    return step === reviewStep && steps.every((_, index) => completedSteps.includes(index) || isStepSkipped(index));
+  };
+
+  const goTo = (step: number) => {
+    if (canGoTo(step)) setCurrentStep(step);
+  };
+
+  const next = async (): Promise<EditFormSubmitResult> => {
+    const result = await form.validate(stepAttributes(currentStep));
+    if (result.isValid) {
+      setCompletedSteps((currCompletedSteps) =>
+        currCompletedSteps.includes(currentStep) ? currCompletedSteps : [...currCompletedSteps, currentStep]);
+      setCurrentStep(findNextStep(currentStep));
+    }
+    return result;
+  };
+
+  const back = () => setCurrentStep(findPreviousStep(currentStep));
+
+  const goToInvalid = (invalidEntries: EditEntry[]) => {
+    if (!invalidEntries.length) return;
+    const invalidStep = steps.findIndex((_, index) => stepAttributes(index).includes(invalidEntries[0].attribute));
+    if (invalidStep < 0) return;
+    // The invalid step and the ones after it have to be completed again
+    setCompletedSteps((currCompletedSteps) => currCompletedSteps.filter((step) => step < invalidStep));
+    setCurrentStep(invalidStep);
+  };
+
+  return {
+    currentStep,
+    isReview: currentStep === reviewStep,
+    completedSteps,
+    currentEntries: currentStep === reviewStep ? [] : stepEntries(currentStep),
+    isStepSkipped,
+    canGoTo,
+    goTo,
+    next,
+    back,
+    goToInvalid,
+  };
+}
@@ -0,0 +1,39 @@
+import { useState } from 'react';
+import toast from 'react-hot-toast';
+import type { ImageOptions } from '../data/editEntry';
+import { imageOptions, prepareImage, type CropArea } from '../utils/image';
+import type { ImageCropperProps } from './fields/ImageCropper';
+
+export interface PreparedImage {
+  // Hands over the picked image, the cropper opens first when the field crops its images
+  pick: (file: File) => void;
+  // Props of the ImageCropper to render while the user crops
+  cropper: ImageCropperProps | null;
+}
+
+// Prepares the images picked for a field with the options of its entry, then calls onReady with the file to upload
+export function usePreparedImage(image: ImageOptions | false | undefined, fieldDefaults: ImageOptions, onReady: (file: File) => void): PreparedImage {
+  const [cropping, setCropping] = useState<File | null>(null);
+  const options = imageOptions(image, fieldDefaults);
+
+  const prepare = (file: File, crop?: CropArea) => {
+    if (!options) return onReady(file);
+    prepareImage(file, options, crop).then(onReady, (error) => {
+      console.log(error);
+      toast.error("The image could not be read. Please pick another one.");
+    });
+  };
+
+  return {
+    pick: (file) => (options?.crop ? setCropping(file) : prepare(file)),
+    cropper: cropping && options?.aspectRatio ? {
+      file: cropping,
+      aspectRatio: options.aspectRatio,
+      onCrop: (area) => {
+        setCropping(null);
+        prepare(cropping, area);
+      },
+      onCancel: () => setCropping(null),
+    } : null,
+  };
+}
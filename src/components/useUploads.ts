@@ -0,0 +1,103 @@
+import { createContext, useEffect, useRef, useState } from 'react';
+import { StoredFile, StoredFileState, type StoredFileStateType } from '../data/common';
+import { isAbortError, uploadFile, type StorageAdapter, type UploadTask } from '../services/storage';
+
+// An upload that is running or failed. Finished and cancelled uploads leave the list
+export interface UploadStatus {
+  id: string;
+  fieldName: string;
+  fileName: string;
+  progress: number;
+  state: StoredFileStateType;
+  error?: string;
+}
+
+export interface UploadsState {
+  uploads: UploadStatus[];
+  // True while a file is still being transferred
+  isUploading: boolean;
+  // Uploads the file of the field and calls onUploaded with it once done, however many retries it takes
+  start: (fieldName: string, file: File, onUploaded: (file: StoredFile) => void) => void;
+  cancel: (id: string) => void;
+  retry: (id: string) => void;
+  // Removes a failed upload from the list
+  dismiss: (id: string) => void;
+}
+
+// The uploads of the form around a field, so its progress is shown where the file was picked and the submit waits for it
+export const UploadsContext = createContext<UploadsState | null>(null);
+
+interface PendingUpload {
+  file: File;
+  fieldName: string;
+  onUploaded: (file: StoredFile) => void;
+  task?: UploadTask;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error && error.message ? error.message : "The upload failed.";
+}
+
+// Uploads tracked with their progress, they can be cancelled and the failed ones retried
+export function useUploads(storage: StorageAdapter, entityId: string): UploadsState {
+  const [uploads, setUploads] = useState<UploadStatus[]>([]);
+  const pending = useRef<Map<string, PendingUpload>>(new Map());
+  const nextId = useRef(0);
+
+  // The transfers still running are stopped when the form goes away
+  useEffect(() => {
+    const pendingUploads = pending.current;
+    return () => pendingUploads.forEach((upload) => upload.task?.cancel());
+  }, []);
+
+  const update = (id: string, changes: Partial<UploadStatus>) =>
+    setUploads((currUploads) => currUploads.map((upload) => (upload.id === id ? { ...upload, ...changes } : upload)));
+
+  const remove = (id: string) => {
+    pending.current.delete(id);
+    setUploads((currUploads) => currUploads.filter((upload) => upload.id !== id));
+  };
+
+  const run = (id: string) => {
+    const upload = pending.current.get(id);
+    if (!upload) return;
+    upload.task = uploadFile(
+      storage,
+      entityId,
+      upload.fieldName,
+      upload.file,
+      (progress) => update(id, { progress }),
+      (storedFile) => {
+        remove(id);
+        upload.onUploaded(storedFile);
+      },
+      (error) => {
+        if (isAbortError(error)) {
+          remove(id);
+        } else {
+          console.log(error);
+          update(id, { state: StoredFileState.Failed, error: errorMessage(error) });
+        }
+      }
+    );
+  };
+
+  const start = (fieldName: string, file: File, onUploaded: (file: StoredFile) => void) => {
+    const id = `upload-${nextId.current++}`;
+    pending.current.set(id, { file, fieldName, onUploaded });
+    setUploads((currUploads) => [...currUploads, { id, fieldName, fileName: file.name, progress: 0, state: StoredFileState.Uploading }]);
+    run(id);
+  };
+
+  return {
+    uploads,
+    isUploading: uploads.some((upload) => upload.state === StoredFileState.Uploading),
+    start,
+    cancel: (id) => pending.current.get(id)?.task?.cancel(),
+    retry: (id) => {
+      update(id, { state: StoredFileState.Uploading, progress: 0, error: undefined });
+      run(id);
+    },
+    dismiss: remove,
+  };
+}
@@ -0,0 +1,15 @@
+import React, { createContext, useContext } from 'react';
+import type { StorageAdapter } from '../services/storage';
+import { createMemoryStorageAdapter } from '../services/browserStorage';
+
+// Without a provider the files are kept in memory, like the uploads faked before the adapters
+const StorageContext = createContext<StorageAdapter>(createMemoryStorageAdapter());
+
+export const useStorage = () => useContext(StorageContext);
+
+// Sets where the forms below it upload their files
+export const StorageProvider: React.FC<{ adapter: StorageAdapter; children: React.ReactNode }> = ({ adapter, children }) => (
+  <StorageContext.Provider value={adapter}>
+    {children}
+  </StorageContext.Provider>
+);
@@ -0,0 +1,536 @@
+/*
+ * Address metadata of each country: the order and labels of the address parts, the parts that are
+ * required, the postal code format and the fixed list of regions where there is one.
+ * Countries without an entry in ADDRESS_FORMATS use DEFAULT_ADDRESS_FORMAT
+ */
+
+export type AddressPart = 'street_address' | 'city' | 'province' | 'postal_code';
+
+export interface AddressFormat {
+  // Parts in the order they are written in the country, the country itself is always asked first
+  parts: AddressPart[];
+  labels: Record<AddressPart, string>;
+  required: AddressPart[];
+  postalCodePattern?: RegExp;
+  postalCodeExample?: string;
+  regions?: string[];
+  // Codes of the regions, like CA for California
+  regionCodes?: Record<string, string>;
+}
+
+// ISO 3166-1 alpha-2 codes and English names. Addresses store the name, like the values saved before
+export const COUNTRIES: Record<string, string> = {
+  AD: 'Andorra',
+  AE: 'United Arab Emirates',
+  AF: 'Afghanistan',
+  AG: 'Antigua & Barbuda',
+  AI: 'Anguilla',
+  AL: 'Albania',
+  AM: 'Armenia',
+  AO: 'Angola',
+  AQ: 'Antarctica',
+  AR: 'Argentina',
+  AS: 'American Samoa',
+  AT: 'Austria',
+  AU: 'Australia',
+  AW: 'Aruba',
+  AX: 'Åland Islands',
+  AZ: 'Azerbaijan',
+  BA: 'Bosnia & Herzegovina',
+  BB: 'Barbados',
+  BD: 'Bangladesh',
+  BE: 'Belgium',
+  BF: 'Burkina Faso',
+  BG: 'Bulgaria',
+  BH: 'Bahrain',
+  BI: 'Burundi',
+  BJ: 'Benin',
+  BL: 'St. Barthélemy',
+  BM: 'Bermuda',
+  BN: 'Brunei',
+  BO: 'Bolivia',
+  BQ: 'Caribbean Netherlands',
+  BR: 'Brazil',
+  BS: 'Bahamas',
+  BT: 'Bhutan',
+  BV: 'Bouvet Island',
+  BW: 'Botswana',
+  BY: 'Belarus',
+  BZ: 'Belize',
+  CA: 'Canada',
+  CC: 'Cocos (Keeling) Islands',
+  CD: 'Democratic Republic of the Congo',
+  CF: 'Central African Republic',
+  CG: 'Republic of the Congo',
+  CH: 'Switzerland',
+  CI: "Côte d'Ivoire",
+  CK: 'Cook Islands',
+  CL: 'Chile',
+  CM: 'Cameroon',
+  CN: 'China',
+  CO: 'Colombia',
+  CR: 'Costa Rica',
+  CU: 'Cuba',
+  CV: 'Cape Verde',
+  CW: 'Curaçao',
+  CX: 'Christmas Island',
+  CY: 'Cyprus',
+  CZ: 'Czechia',
+  DE: 'Germany',
+  DJ: 'Djibouti',
+  DK: 'Denmark',
+  DM: 'Dominica',
+  DO: 'Dominican Republic',
+  DZ: 'Algeria',
+  EC: 'Ecuador',
+  EE: 'Estonia',
+  EG: 'Egypt',
+  EH: 'Western Sahara',
+  ER: 'Eritrea',
+  ES: 'Spain',
+  ET: 'Ethiopia',
+  FI: 'Finland',
+  FJ: 'Fiji',
+  FK: 'Falkland Islands',
+  FM: 'Micronesia',
+  FO: 'Faroe Islands',
+  FR: 'France',
+  GA: 'Gabon',
+  GB: 'United Kingdom',
+  GD: 'Grenada',
+  GE: 'Georgia',
+  GF: 'French Guiana',
+  GG: 'Guernsey',
+  GH: 'Ghana',
+  GI: 'Gibraltar',
+  GL: 'Greenland',
+  GM: 'Gambia',
+  GN: 'Guinea',
+  GP: 'Guadeloupe',
+  GQ: 'Equatorial Guinea',
+  GR: 'Greece',
+  GS: 'South Georgia & South Sandwich Islands',
+  GT: 'Guatemala',
+  GU: 'Guam',
+  GW: 'Guinea-Bissau',
+  GY: 'Guyana',
+  HK: 'Hong Kong',
+  HM: 'Heard & McDonald Islands',
+  HN: 'Honduras',
+  HR: 'Croatia',
+  HT: 'Haiti',
+  HU: 'Hungary',
+  ID: 'Indonesia',
+  IE: 'Ireland',
+  IL: 'Israel',
+  IM: 'Isle of Man',
+  IN: 'India',
+  IO: 'British Indian Ocean Territory',
+  IQ: 'Iraq',
+  IR: 'Iran',
+  IS: 'Iceland',
+  IT: 'Italy',
+  JE: 'Jersey',
+  JM: 'Jamaica',
+  JO: 'Jordan',
+  JP: 'Japan',
+  KE: 'Kenya',
+  KG: 'Kyrgyzstan',
+  KH: 'Cambodia',
+  KI: 'Kiribati',
+  KM: 'Comoros',
+  KN: 'St. Kitts & Nevis',
+  KP: 'North Korea',
+  KR: 'South Korea',
+  KW: 'Kuwait',
+  KY: 'Cayman Islands',
+  KZ: 'Kazakhstan',
+  LA: 'Laos',
+  LB: 'Lebanon',
+  LC: 'St. Lucia',
+  LI: 'Liechtenstein',
+  LK: 'Sri Lanka',
+  LR: 'Liberia',
+  LS: 'Lesotho',
+  LT: 'Lithuania',
+  LU: 'Luxembourg',
+  LV: 'Latvia',
+  LY: 'Libya',
+  MA: 'Morocco',
+  MC: 'Monaco',
+  MD: 'Moldova',
+  ME: 'Montenegro',
+  MF: 'St. Martin',
+  MG: 'Madagascar',
+  MH: 'Marshall Islands',
+  MK: 'North Macedonia',
+  ML: 'Mali',
+  MM: 'Myanmar',
+  MN: 'Mongolia',
+  MO: 'Macao',
+  MP: 'Northern Mariana Islands',
+  MQ: 'Martinique',
+  MR: 'Mauritania',
+  MS: 'Montserrat',
+  MT: 'Malta',
+  MU: 'Mauritius',
+  MV: 'Maldives',
+  MW: 'Malawi',
+  MX: 'Mexico',
+  MY: 'Malaysia',
+  MZ: 'Mozambique',
+  NA: 'Namibia',
+  NC: 'New Caledonia',
+  NE: 'Niger',
+  NF: 'Norfolk Island',
+  NG: 'Nigeria',
+  NI: 'Nicaragua',
+  NL: 'Netherlands',
+  NO: 'Norway',
+  NP: 'Nepal',
+  NR: 'Nauru',
+  NU: 'Niue',
+  NZ: 'New Zealand',
+  OM: 'Oman',
+  PA: 'Panama',
+  PE: 'Peru',
+  PF: 'French Polynesia',
+  PG: 'Papua New Guinea',
+  PH: 'Philippines',
+  PK: 'Pakistan',
+  PL: 'Poland',
+  PM: 'St. Pierre & Miquelon',
+  PN: 'Pitcairn Islands',
+  PR: 'Puerto Rico',
+  PS: 'Palestinian Territories',
+  PT: 'Portugal',
+  PW: 'Palau',
+  PY: 'Paraguay',
+  QA: 'Qatar',
+  RE: 'Réunion',
+  RO: 'Romania',
+  RS: 'Serbia',
+  RU: 'Russia',
+  RW: 'Rwanda',
+  SA: 'Saudi Arabia',
+  SB: 'Solomon Islands',
+  SC: 'Seychelles',
+  SD: 'Sudan',
+  SE: 'Sweden',
+  SG: 'Singapore',
+  SH: 'St. Helena',
+  SI: 'Slovenia',
+  SJ: 'Svalbard & Jan Mayen',
+  SK: 'Slovakia',
+  SL: 'Sierra Leone',
+  SM: 'San Marino',
+  SN: 'Senegal',
+  SO: 'Somalia',
+  SR: 'Suriname',
+  SS: 'South Sudan',
+  ST: 'São Tomé & Príncipe',
+  SV: 'El Salvador',
+  SX: 'Sint Maarten',
+  SY: 'Syria',
+  SZ: 'Eswatini',
+  TC: 'Turks & Caicos Islands',
+  TD: 'Chad',
+  TF: 'French Southern Territories',
+  TG: 'Togo',
+  TH: 'Thailand',
+  TJ: 'Tajikistan',
+  TK: 'Tokelau',
+  TL: 'Timor-Leste',
+  TM: 'Turkmenistan',
+  TN: 'Tunisia',
+  TO: 'Tonga',
+  TR: 'Türkiye',
+  TT: 'Trinidad & Tobago',
+  TV: 'Tuvalu',
+  TW: 'Taiwan',
+  TZ: 'Tanzania',
+  UA: 'Ukraine',
+  UG: 'Uganda',
+  UM: 'U.S. Outlying Islands',
+  US: 'United States',
+  UY: 'Uruguay',
+  UZ: 'Uzbekistan',
+  VA: 'Vatican City',
+  VC: 'St. Vincent & Grenadines',
+  VE: 'Venezuela',
+  VG: 'British Virgin Islands',
+  VI: 'U.S. Virgin Islands',
+  VN: 'Vietnam',
+  VU: 'Vanuatu',
+  WF: 'Wallis & Futuna',
+  WS: 'Samoa',
+  YE: 'Yemen',
+  YT: 'Mayotte',
+  ZA: 'South Africa',
+  ZM: 'Zambia',
+  ZW: 'Zimbabwe',
+};
+
+const DEFAULT_LABELS: Record<AddressPart, string> = {
+  street_address: 'Street Address',
+  city: 'City/Town',
+  province: 'Region',
+  postal_code: 'Postal Code',
+};
+
+export const DEFAULT_ADDRESS_FORMAT: AddressFormat = {
+  parts: ['street_address', 'city', 'province', 'postal_code'],
+  labels: DEFAULT_LABELS,
+  required: ['street_address', 'city'],
+};
+
+// Regions by their postal code, older addresses were often saved with the code
+const US_STATES: Record<string, string> = {
+  AL: 'Alabama', AK: 'Alaska', AZ: 'Arizona', AR: 'Arkansas', CA: 'California', CO: 'Colorado', CT: 'Connecticut',
+  DE: 'Delaware', DC: 'District of Columbia', FL: 'Florida', GA: 'Georgia', HI: 'Hawaii', ID: 'Idaho', IL: 'Illinois',
+  IN: 'Indiana', IA: 'Iowa', KS: 'Kansas', KY: 'Kentucky', LA: 'Louisiana', ME: 'Maine', MD: 'Maryland',
+  MA: 'Massachusetts', MI: 'Michigan', MN: 'Minnesota', MS: 'Mississippi', MO: 'Missouri', MT: 'Montana',
+  NE: 'Nebraska', NV: 'Nevada', NH: 'New Hampshire', NJ: 'New Jersey', NM: 'New Mexico', NY: 'New York',
+  NC: 'North Carolina', ND: 'North Dakota', OH: 'Ohio', OK: 'Oklahoma', OR: 'Oregon', PA: 'Pennsylvania',
+  RI: 'Rhode Island', SC: 'South Carolina', SD: 'South Dakota', TN: 'Tennessee', TX: 'Texas', UT: 'Utah',
+  VT: 'Vermont', VA: 'Virginia', WA: 'Washington', WV: 'West Virginia', WI: 'Wisconsin', WY: 'Wyoming',
+  AS: 'American Samoa', GU: 'Guam', MP: 'Northern Mariana Islands', PR: 'Puerto Rico', VI: 'U.S. Virgin Islands',
+  AA: 'Armed Forces Americas', AE: 'Armed Forces Europe', AP: 'Armed Forces Pacific',
+};
+
+const CANADIAN_PROVINCES: Record<string, string> = {
+  AB: 'Alberta', BC: 'British Columbia', MB: 'Manitoba', NB: 'New Brunswick', NL: 'Newfoundland and Labrador',
+  NT: 'Northwest Territories', NS: 'Nova Scotia', NU: 'Nunavut', ON: 'Ontario', PE: 'Prince Edward Island',
+  QC: 'Quebec', SK: 'Saskatchewan', YT: 'Yukon',
+};
+
+const AUSTRALIAN_STATES: Record<string, string> = {
+  ACT: 'Australian Capital Territory', NSW: 'New South Wales', NT: 'Northern Territory', QLD: 'Queensland',
+  SA: 'South Australia', TAS: 'Tasmania', VIC: 'Victoria', WA: 'Western Australia',
+};
+
+const JAPANESE_PREFECTURES = [
+  'Hokkaido', 'Aomori', 'Iwate', 'Miyagi', 'Akita', 'Yamagata', 'Fukushima', 'Ibaraki', 'Tochigi', 'Gunma', 'Saitama',
+  'Chiba', 'Tokyo', 'Kanagawa', 'Niigata', 'Toyama', 'Ishikawa', 'Fukui', 'Yamanashi', 'Nagano', 'Gifu', 'Shizuoka',
+  'Aichi', 'Mie', 'Shiga', 'Kyoto', 'Osaka', 'Hyogo', 'Nara', 'Wakayama', 'Tottori', 'Shimane', 'Okayama', 'Hiroshima',
+  'Yamaguchi', 'Tokushima', 'Kagawa', 'Ehime', 'Kochi', 'Fukuoka', 'Saga', 'Nagasaki', 'Kumamoto', 'Oita', 'Miyazaki',
+  'Kagoshima', 'Okinawa',
+];
+
+const BRAZILIAN_STATES = [
+  'Acre', 'Alagoas', 'Amapá', 'Amazonas', 'Bahia', 'Ceará', 'Distrito Federal', 'Espírito Santo', 'Goiás', 'Maranhão',
+  'Mato Grosso', 'Mato Grosso do Sul', 'Minas Gerais', 'Pará', 'Paraíba', 'Paraná', 'Pernambuco', 'Piauí',
+  'Rio de Janeiro', 'Rio Grande do Norte', 'Rio Grande do Sul', 'Rondônia', 'Roraima', 'Santa Catarina', 'São Paulo',
+  'Sergipe', 'Tocantins',
+];
+
+const MEXICAN_STATES = [
+  'Aguascalientes', 'Baja California', 'Baja California Sur', 'Campeche', 'Chiapas', 'Chihuahua', 'Ciudad de México',
+  'Coahuila', 'Colima', 'Durango', 'Estado de México', 'Guanajuato', 'Guerrero', 'Hidalgo', 'Jalisco', 'Michoacán',
+  'Morelos', 'Nayarit', 'Nuevo León', 'Oaxaca', 'Puebla', 'Querétaro', 'Quintana Roo', 'San Luis Potosí', 'Sinaloa',
+  'Sonora', 'Tabasco', 'Tamaulipas', 'Tlaxcala', 'Veracruz', 'Yucatán', 'Zacatecas',
+];
+
+const INDIAN_STATES = [
+  'Andaman and Nicobar Islands', 'Andhra Pradesh', 'Arunachal Pradesh', 'Assam', 'Bihar', 'Chandigarh', 'Chhattisgarh',
+  'Dadra and Nagar Haveli and Daman and Diu', 'Delhi', 'Goa', 'Gujarat', 'Haryana', 'Himachal Pradesh',
+  'Jammu and Kashmir', 'Jharkhand', 'Karnataka', 'Kerala', 'Ladakh', 'Lakshadweep', 'Madhya Pradesh', 'Maharashtra',
+  'Manipur', 'Meghalaya', 'Mizoram', 'Nagaland', 'Odisha', 'Puducherry', 'Punjab', 'Rajasthan', 'Sikkim', 'Tamil Nadu',
+  'Telangana', 'Tripura', 'Uttar Pradesh', 'Uttarakhand', 'West Bengal',
+];
+
+// Street, postal code and city, the order of most of Europe
+const EUROPEAN_PARTS: AddressPart[] = ['street_address', 'postal_code', 'city'];
+
+function europeanFormat(postalCodePattern: RegExp, postalCodeExample: string): AddressFormat {
+  return {
+    parts: EUROPEAN_PARTS,
+    labels: DEFAULT_LABELS,
+    required: ['street_address', 'postal_code', 'city'],
+    postalCodePattern,
+    postalCodeExample,
+  };
+}
+
+export const ADDRESS_FORMATS: Record<string, AddressFormat> = {
+  US: {
+    parts: ['street_address', 'city', 'province', 'postal_code'],
+    labels: { ...DEFAULT_LABELS, province: 'State', postal_code: 'ZIP Code' },
+    required: ['street_address', 'city', 'province', 'postal_code'],
+    postalCodePattern: /^\d{5}(-\d{4})?$/,
+    postalCodeExample: '95014',
+    regions: Object.values(US_STATES),
+    regionCodes: US_STATES,
+  },
+  CA: {
+    parts: ['street_address', 'city', 'province', 'postal_code'],
+    labels: { ...DEFAULT_LABELS, province: 'Province' },
+    required: ['street_address', 'city', 'province', 'postal_code'],
+    postalCodePattern: /^[ABCEGHJ-NPRSTVXY]\d[ABCEGHJ-NPRSTV-Z] ?\d[ABCEGHJ-NPRSTV-Z]\d$/i,
+    postalCodeExample: 'H3Z 2Y7',
+    regions: Object.values(CANADIAN_PROVINCES),
+    regionCodes: CANADIAN_PROVINCES,
+  },
+  GB: {
+    parts: ['street_address', 'city', 'province', 'postal_code'],
+    labels: { ...DEFAULT_LABELS, city: 'Town/City', province: 'County', postal_code: 'Postcode' },
+    required: ['street_address', 'city', 'postal_code'],
+    postalCodePattern: /^(GIR ?0AA|[A-Z]{1,2}\d[A-Z\d]? ?\d[A-Z]{2})$/i,
+    postalCodeExample: 'SW1A 1AA',
+  },
+  IE: {
+    parts: ['street_address', 'city', 'province', 'postal_code'],
+    labels: { ...DEFAULT_LABELS, province: 'County', postal_code: 'Eircode' },
+    required: ['street_address', 'city'],
+    postalCodePattern: /^[AC-FHKNPRTV-Y]\d[\dW] ?[\dAC-FHKNPRTV-Y]{4}$/i,
+    postalCodeExample: 'D02 X285',
+  },
+  AU: {
+    parts: ['street_address', 'city', 'province', 'postal_code'],
+    labels: { ...DEFAULT_LABELS, city: 'Suburb', province: 'State', postal_code: 'Postcode' },
+    required: ['street_address', 'city', 'province', 'postal_code'],
+    postalCodePattern: /^\d{4}$/,
+    postalCodeExample: '2060',
+    regions: Object.values(AUSTRALIAN_STATES),
+    regionCodes: AUSTRALIAN_STATES,
+  },
+  NZ: {
+    parts: ['street_address', 'city', 'postal_code'],
+    labels: { ...DEFAULT_LABELS, postal_code: 'Postcode' },
+    required: ['street_address', 'city', 'postal_code'],
+    postalCodePattern: /^\d{4}$/,
+    postalCodeExample: '6001',
+  },
+  JP: {
+    parts: ['postal_code', 'province', 'city', 'street_address'],
+    labels: { ...DEFAULT_LABELS, province: 'Prefecture' },
+    required: ['postal_code', 'province', 'city', 'street_address'],
+    postalCodePattern: /^\d{3}-?\d{4}$/,
+    postalCodeExample: '154-0023',
+    regions: JAPANESE_PREFECTURES,
+  },
+  CN: {
+    parts: ['province', 'city', 'street_address', 'postal_code'],
+    labels: { ...DEFAULT_LABELS, province: 'Province' },
+    required: ['province', 'city', 'street_address'],
+    postalCodePattern: /^\d{6}$/,
+    postalCodeExample: '266033',
+  },
+  KR: {
+    parts: ['province', 'city', 'street_address', 'postal_code'],
+    labels: { ...DEFAULT_LABELS, province: 'Province' },
+    required: ['province', 'city', 'street_address', 'postal_code'],
+    postalCodePattern: /^\d{5}$/,
+    postalCodeExample: '03051',
+  },
+  IN: {
+    parts: ['street_address', 'city', 'province', 'postal_code'],
+    labels: { ...DEFAULT_LABELS, province: 'State', postal_code: 'PIN Code' },
+    required: ['street_address', 'city', 'province', 'postal_code'],
+    postalCodePattern: /^\d{3} ?\d{3}$/,
+    postalCodeExample: '110034',
+    regions: INDIAN_STATES,
+  },
+  BR: {
+    parts: ['street_address', 'city', 'province', 'postal_code'],
+    labels: { ...DEFAULT_LABELS, province: 'State', postal_code: 'CEP' },
+    required: ['street_address', 'city', 'province', 'postal_code'],
+    postalCodePattern: /^\d{5}-?\d{3}$/,
+    postalCodeExample: '40301-110',
+    regions: BRAZILIAN_STATES,
+  },
+  MX: {
+    parts: ['street_address', 'postal_code', 'city', 'province'],
+    labels: { ...DEFAULT_LABELS, province: 'State' },
+    required: ['street_address', 'postal_code', 'city', 'province'],
+    postalCodePattern: /^\d{5}$/,
+    postalCodeExample: '02860',
+    regions: MEXICAN_STATES,
+  },
+  IT: {
+    parts: ['street_address', 'postal_code', 'city', 'province'],
+    labels: { ...DEFAULT_LABELS, province: 'Province' },
+    required: ['street_address', 'postal_code', 'city', 'province'],
+    postalCodePattern: /^\d{5}$/,
+    postalCodeExample: '00144',
+  },
+  ES: {
+    parts: ['street_address', 'postal_code', 'city', 'province'],
+    labels: { ...DEFAULT_LABELS, province: 'Province' },
+    required: ['street_address', 'postal_code', 'city', 'province'],
+    postalCodePattern: /^\d{5}$/,
+    postalCodeExample: '28039',
+  },
+  AT: europeanFormat(/^\d{4}$/, '1010'),
+  BE: europeanFormat(/^\d{4}$/, '4000'),
+  CH: europeanFormat(/^\d{4}$/, '2544'),
+  DE: europeanFormat(/^\d{5}$/, '26133'),
+  DK: europeanFormat(/^\d{4}$/, '8660'),
+  FI: europeanFormat(/^\d{5}$/, '00550'),
+  FR: europeanFormat(/^\d{2} ?\d{3}$/, '75007'),
+  NL: europeanFormat(/^\d{4} ?[A-Z]{2}$/i, '1234 AB'),
+  NO: europeanFormat(/^\d{4}$/, '0025'),
+  PL: europeanFormat(/^\d{2}-\d{3}$/, '00-950'),
+  PT: europeanFormat(/^\d{4}-\d{3}$/, '2725-079'),
+  SE: europeanFormat(/^\d{3} ?\d{2}$/, '114 55'),
+  RU: {
+    parts: ['street_address', 'city', 'province', 'postal_code'],
+    labels: { ...DEFAULT_LABELS, province: 'Region' },
+    required: ['street_address', 'city', 'province', 'postal_code'],
+    postalCodePattern: /^\d{6}$/,
+    postalCodeExample: '125075',
+  },
+  SG: {
+    parts: ['street_address', 'postal_code'],
+    labels: DEFAULT_LABELS,
+    required: ['street_address', 'postal_code'],
+    postalCodePattern: /^\d{6}$/,
+    postalCodeExample: '546080',
+  },
+  ZA: {
+    parts: ['street_address', 'city', 'postal_code'],
+    labels: DEFAULT_LABELS,
+    required: ['street_address', 'city', 'postal_code'],
+    postalCodePattern: /^\d{4}$/,
+    postalCodeExample: '0083',
+  },
+  // Countries without postal codes
+  AE: {
+    parts: ['street_address', 'province'],
+    labels: { ...DEFAULT_LABELS, province: 'Emirate' },
+    required: ['street_address', 'province'],
+    regions: ['Abu Dhabi', 'Ajman', 'Dubai', 'Fujairah', 'Ras al-Khaimah', 'Sharjah', 'Umm al-Quwain'],
+  },
+  HK: {
+    parts: ['street_address', 'city', 'province'],
+    labels: { ...DEFAULT_LABELS, city: 'District', province: 'Area' },
+    required: ['street_address', 'province'],
+    regions: ['Hong Kong Island', 'Kowloon', 'New Territories'],
+  },
+};
+
+export const DEFAULT_COUNTRY = 'US';
+
+// Code of a country given by its name or its code, as older addresses may hold either
+export function countryCode(country: unknown): string | undefined {
+  if (typeof country !== 'string' || !country.trim()) return undefined;
+  const value = country.trim().toLowerCase();
+  return Object.keys(COUNTRIES).find((code) => code.toLowerCase() === value || COUNTRIES[code].toLowerCase() === value);
+}
+
+export function addressFormat(code: string | undefined): AddressFormat {
+  return (code && ADDRESS_FORMATS[code]) || DEFAULT_ADDRESS_FORMAT;
+}
+
+/*
+ * Region of the list written in the value, by its name or code in any case ("ca", "California"). Values that
+ * match none, like the free text saved before the lists, are returned as they are
+ */
+export function matchRegion(value: string, format: AddressFormat): string {
+  const text = value.trim();
+  if (!format.regions || !text) return text;
+  const lower = text.toLowerCase();
+  const code = Object.keys(format.regionCodes || {}).find((code) => code.toLowerCase() === lower);
+  if (code) return format.regionCodes![code];
+  return format.regions.find((region) => region.toLowerCase() === lower) ?? text;
+}
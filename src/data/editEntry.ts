@@ -0,0 +1,174 @@
+/*
+ * Types describing the fields rendered by EditForm
+ */
+
+// Define the EditEntryType and ValidationType enums
+export const EditEntryType = {
+  Text: 'Text',
+  TextList: 'TextList',
+  DoubleTextList: 'DoubleTextList',
+  TextArea: 'TextArea',
+  File: 'File',
+  Address: 'Address',
+  Photo: 'Photo',
+  ProfilePhoto: 'ProfilePhoto',
+  FilePhoto: 'FilePhoto',
+  Radio: 'Radio',
+  Checkbox: 'Checkbox',
+  Article: 'Article',
+  Date: 'Date',
+  DateTime: 'DateTime',
+  DateRange: 'DateRange',
+  Select: 'Select',
+  Number: 'Number',
+  Currency: 'Currency',
+  Showcase: 'Showcase',
+  PillList: 'PillList',
+  Group: 'Group',
+  Signature: 'Signature',
+  Computed: 'Computed',
+  Phone: 'Phone',
+} as const; // const assertion. Added to make the property values readonly
+
+// Define the ValidationType enum
+export const ValidationType = {
+  Email: 'Email',
+  PhoneNumber: 'PhoneNumber',
+  UserName: 'UserName',
+  CheckboxChecked: 'CheckboxChecked',
+  RequiredField: 'RequiredField',
+  TextLengthBelow30: 'TextLengthBelow30',
+  TextLengthBelow50: 'TextLengthBelow50',
+  TextLengthBelow100: 'TextLengthBelow100',
+  TextLengthBelow200: 'TextLengthBelow200',
+  TextLengthBelow300: 'TextLengthBelow300',
+  TextLengthBelow400: 'TextLengthBelow400',
+  Number: 'Number',
+  Price: 'Price',
+} as const;
+
+// Define missing types to evade errors and for creating union types
+export type EditEntryType = typeof EditEntryType[keyof typeof EditEntryType];
+export type ValidationType = typeof ValidationType[keyof typeof ValidationType];
+
+// Custom field types registered through registerFieldType are plain strings.
+// The (string & {}) keeps editor autocompletion for the built-in names
+export type FieldTypeName = EditEntryType | (string & {});
+
+// The entity edited by the form. Its shape is defined by the caller
+export type Entity = Record<string, unknown>;
+
+/*
+ * Validation rule with its parameters. The ValidationType constants are aliases for these rules,
+ * e.g. TextLengthBelow30 is { kind: 'maxLength', value: 30 }. The message replaces the default one
+ */
+export type ValidationRule =
+  | { kind: 'required'; message?: string }
+  | { kind: 'maxLength'; value: number; message?: string }
+  | { kind: 'minLength'; value: number; message?: string }
+  | { kind: 'range'; min?: number; max?: number; decimals?: number; message?: string }
+  | { kind: 'pattern'; regex: RegExp | string; message: string }
+  | { kind: 'oneOf'; values: unknown[]; message?: string }
+  // fn returns false (or an error message) when the value is invalid
+  | { kind: 'custom'; fn: (value: unknown, entity: Entity) => boolean | string; message?: string }
+  // Checks that need a service. They run debounced as the value changes and the submit waits for them.
+  // fn should stop when the signal is aborted, that happens when the value changes again
+  | {
+      kind: 'async';
+      fn: (value: unknown, entity: Entity, signal: AbortSignal) => Promise<boolean | string>;
+      debounce?: number; // Milliseconds, 400 by default
+      message?: string;
+    };
+
+export type Validation = ValidationType | ValidationRule;
+
+/*
+ * Rule deciding if a field is shown, evaluated against the current values of the form.
+ * Rules on a single field compare its value; and/or/not combine other rules
+ */
+export type VisibilityRule =
+  | { field: string; equals: unknown }
+  | { field: string; notEquals: unknown }
+  | { field: string; in: unknown[] }
+  | { field: string; empty: boolean }
+  | { and: VisibilityRule[] }
+  | { or: VisibilityRule[] }
+  | { not: VisibilityRule };
+
+// An option of a Select or Radio field. Plain strings are options whose value and label are the same
+export interface SelectOption {
+  value: string;
+  label: string;
+  disabled?: boolean;
+  group?: string; // Options with the same group are listed together under its name
+}
+
+/*
+ * How a picked image is prepared before it is uploaded: cropped, scaled down and encoded again, which drops
+ * its EXIF metadata (location, camera...) once the orientation is applied to the pixels
+ */
+export interface ImageOptions {
+  crop?: boolean; // Asks the user to crop the image to aspectRatio, true by default
+  aspectRatio?: number; // Width / height, the one the field shows the image with by default
+  maxDimension?: number; // Longest side in pixels, 2048 by default (512 for profile photos)
+  format?: 'webp' | 'jpeg'; // WebP by default, JPEG where the browser can't encode WebP
+  quality?: number; // From 0 to 1, 0.85 by default
+}
+
+/*
+* Though this was defined as "class" it is not being used as constructors and the classes weren't
+* instantiated in the coded with new EditEntry() so it is better to change it to interface, since
+* we are using this only as type definitions
+*/
+export interface EditEntry {
+  attribute: string;
+  attributeName: string;
+  type: FieldTypeName;
+  isRequired: boolean;
+  validations?: Validation[]; // Optional
+  extraParam?: unknown; // Optional
+  // Here we add properties that were being accessed but never declared
+  condition?: boolean;
+  visibleWhen?: VisibilityRule; // Hidden fields are not required nor validated
+  subName?: string;
+  characterCount?: number;
+  info?: string;
+  options?: (string | SelectOption)[];
+  // Select only: options loaded as the user types, they replace options in the list
+  loadOptions?: (query: string, signal: AbortSignal) => Promise<(string | SelectOption)[]>;
+  searchable?: boolean; // Select only: filters the options as the user types
+  multiple?: boolean; // Select only: the value is an array of the selected values
+  clearable?: boolean; // Select only: shows a button to empty the field
+  placeholder?: string;
+  // Date fields only. Bounds are ISO dates ('2024-05-01') or date-times, weekdays go from 0 (Sunday) to 6
+  minDate?: string;
+  maxDate?: string;
+  disabledWeekdays?: number[];
+  timeZone?: string; // DateTime and DateRange with time: IANA name, the browser's one by default
+  withTime?: boolean; // DateRange only: the start and end are date-times
+  // Number and Currency only. Currency bounds and steps are in major units (9.99, not 999)
+  min?: number;
+  max?: number;
+  step?: number;
+  locale?: string; // BCP 47 tag of the number format ('de-DE'), the browser's one by default
+  currency?: string; // Currency only: ISO 4217 code, USD by default. The value is in minor units (cents)
+  // Group only: the entries of each row, any field type including other groups
+  fields?: EditEntry[];
+  minRows?: number;
+  maxRows?: number;
+  button?: string;
+  subTitle?: string;
+  // PillList only. Suggestions are static or loaded as the user types
+  suggestions?: string[] | ((query: string, signal: AbortSignal) => Promise<string[]>);
+  dedupe?: 'caseInsensitive' | 'caseSensitive' | false; // Repeated pills are refused, ignoring the case by default
+  minPills?: number;
+  maxPills?: number;
+  maxPillLength?: number;
+  richText?: boolean; // Article only: the content is edited with formatting and stored as Markdown
+  // The value is derived from the other values and the field is read-only. Formulas like 'quantity * price'
+  // list what they read by themselves, functions list it in dependsOn so they are computed after those fields
+  compute?: string | ((entity: Entity) => unknown);
+  dependsOn?: string[];
+  image?: ImageOptions | false; // Photo, ProfilePhoto and Showcase: false uploads the picked images unchanged
+  defaultCountry?: string; // Phone only: ISO code of the country picked first and of the numbers stored without a calling code, US by default
+}
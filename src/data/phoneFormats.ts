@@ -0,0 +1,124 @@
+/*
+ * Phone metadata of each country: its calling code and, for the countries in PHONE_FORMATS, the lengths and
+ * pattern of the national numbers, the trunk prefix dialed before them at home ('0' in the United Kingdom)
+ * and how they are written. The other countries accept any number E.164 allows, written in plain digits
+ */
+
+export interface PhoneFormat {
+  callingCode: string;
+  // Lengths of the national number without its trunk prefix
+  minLength: number;
+  maxLength: number;
+  pattern?: RegExp;
+  // How the national number is written as it is typed, a # for each digit
+  template?: string;
+  trunkPrefix?: string;
+  example?: string;
+}
+
+// ITU calling codes by ISO 3166-1 alpha-2 code. Codes never start with another one, so numbers can be read left to right
+export const CALLING_CODES: Record<string, string> = {
+  AD: '376', AE: '971', AF: '93', AG: '1', AI: '1', AL: '355', AM: '374', AO: '244', AQ: '672', AR: '54', AS: '1',
+  AT: '43', AU: '61', AW: '297', AX: '358', AZ: '994', BA: '387', BB: '1', BD: '880', BE: '32', BF: '226', BG: '359',
+  BH: '973', BI: '257', BJ: '229', BL: '590', BM: '1', BN: '673', BO: '591', BQ: '599', BR: '55', BS: '1', BT: '975',
+  BW: '267', BY: '375', BZ: '501', CA: '1', CC: '61', CD: '243', CF: '236', CG: '242', CH: '41', CI: '225',
+  CK: '682', CL: '56', CM: '237', CN: '86', CO: '57', CR: '506', CU: '53', CV: '238', CW: '599', CX: '61', CY: '357',
+  CZ: '420', DE: '49', DJ: '253', DK: '45', DM: '1', DO: '1', DZ: '213', EC: '593', EE: '372', EG: '20', EH: '212',
+  ER: '291', ES: '34', ET: '251', FI: '358', FJ: '679', FK: '500', FM: '691', FO: '298', FR: '33', GA: '241',
+  GB: '44', GD: '1', GE: '995', GF: '594', GG: '44', GH: '233', GI: '350', GL: '299', GM: '220', GN: '224',
+  GP: '590', GQ: '240', GR: '30', GS: '500', GT: '502', GU: '1', GW: '245', GY: '592', HK: '852', HN: '504',
+  HR: '385', HT: '509', HU: '36', ID: '62', IE: '353', IL: '972', IM: '44', IN: '91', IO: '246', IQ: '964', IR: '98',
+  IS: '354', IT: '39', JE: '44', JM: '1', JO: '962', JP: '81', KE: '254', KG: '996', KH: '855', KI: '686', KM: '269',
+  KN: '1', KP: '850', KR: '82', KW: '965', KY: '1', KZ: '7', LA: '856', LB: '961', LC: '1', LI: '423', LK: '94',
+  LR: '231', LS: '266', LT: '370', LU: '352', LV: '371', LY: '218', MA: '212', MC: '377', MD: '373', ME: '382',
+  MF: '590', MG: '261', MH: '692', MK: '389', ML: '223', MM: '95', MN: '976', MO: '853', MP: '1', MQ: '596',
+  MR: '222', MS: '1', MT: '356', MU: '230', MV: '960', MW: '265', MX: '52', MY: '60', MZ: '258', NA: '264',
+  NC: '687', NE: '227', NF: '672', NG: '234', NI: '505', NL: '31', NO: '47', NP: '977', NR: '674', NU: '683',
+  NZ: '64', OM: '968', PA: '507', PE: '51', PF: '689', PG: '675', PH: '63', PK: '92', PL: '48', PM: '508', PN: '64',
+  PR: '1', PS: '970', PT: '351', PW: '680', PY: '595', QA: '974', RE: '262', RO: '40', RS: '381', RU: '7', RW: '250',
+  SA: '966', SB: '677', SC: '248', SD: '249', SE: '46', SG: '65', SH: '290', SI: '386', SJ: '47', SK: '421',
+  SL: '232', SM: '378', SN: '221', SO: '252', SR: '597', SS: '211', ST: '239', SV: '503', SX: '1', SY: '963',
+  SZ: '268', TC: '1', TD: '235', TF: '262', TG: '228', TH: '66', TJ: '992', TK: '690', TL: '670', TM: '993',
+  TN: '216', TO: '676', TR: '90', TT: '1', TV: '688', TW: '886', TZ: '255', UA: '380', UG: '256', UM: '1', US: '1',
+  UY: '598', UZ: '998', VA: '39', VC: '1', VE: '58', VG: '1', VI: '1', VN: '84', VU: '678', WF: '681', WS: '685',
+  YE: '967', YT: '262', ZA: '27', ZM: '260', ZW: '263',
+};
+
+// Country of the numbers of a calling code shared by several countries, when nothing else tells them apart
+const MAIN_COUNTRIES: Record<string, string> = {
+  '1': 'US', '7': 'RU', '39': 'IT', '44': 'GB', '47': 'NO', '61': 'AU', '64': 'NZ', '212': 'MA', '262': 'RE',
+  '358': 'FI', '500': 'FK', '590': 'GP', '599': 'CW', '672': 'NF',
+};
+
+// The countries of the North American Numbering Plan share the +1 rules
+const NANP_FORMAT: Omit<PhoneFormat, 'callingCode'> = {
+  minLength: 10,
+  maxLength: 10,
+  pattern: /^[2-9]\d{2}[2-9]\d{6}$/,
+  template: '(###) ###-####',
+  trunkPrefix: '1',
+  example: '2015550123',
+};
+
+const NANP_COUNTRIES = [
+  'AG', 'AI', 'AS', 'BB', 'BM', 'BS', 'DM', 'DO', 'GD', 'GU', 'JM', 'KN', 'KY', 'LC', 'MP', 'MS', 'PR', 'SX', 'TC', 'TT',
+  'UM', 'VC', 'VG', 'VI',
+];
+
+const PHONE_FORMATS: Record<string, Omit<PhoneFormat, 'callingCode'>> = {
+  ...Object.fromEntries(NANP_COUNTRIES.map((country) => [country, NANP_FORMAT])),
+  US: NANP_FORMAT,
+  CA: { ...NANP_FORMAT, example: '5062345678' },
+  GB: { minLength: 9, maxLength: 10, pattern: /^[1-9]\d{8,9}$/, template: '#### ######', trunkPrefix: '0', example: '7400123456' },
+  IE: { minLength: 7, maxLength: 9, pattern: /^[1-9]\d{6,8}$/, template: '## ### ####', trunkPrefix: '0', example: '850123456' },
+  FR: { minLength: 9, maxLength: 9, pattern: /^[1-9]\d{8}$/, template: '# ## ## ## ##', trunkPrefix: '0', example: '612345678' },
+  DE: { minLength: 6, maxLength: 13, pattern: /^[1-9]\d{5,12}$/, template: '#### ########', trunkPrefix: '0', example: '15123456789' },
+  ES: { minLength: 9, maxLength: 9, pattern: /^[5-9]\d{8}$/, template: '### ### ###', example: '612345678' },
+  // Italian landlines keep their leading 0 after the calling code
+  IT: { minLength: 6, maxLength: 11, pattern: /^[03]\d{5,10}$/, template: '### ### ####', example: '3123456789' },
+  NL: { minLength: 9, maxLength: 9, pattern: /^[1-9]\d{8}$/, template: '# ########', trunkPrefix: '0', example: '612345678' },
+  BE: { minLength: 8, maxLength: 9, pattern: /^[1-9]\d{7,8}$/, template: '### ## ## ##', trunkPrefix: '0', example: '470123456' },
+  CH: { minLength: 9, maxLength: 9, pattern: /^[1-9]\d{8}$/, template: '## ### ## ##', trunkPrefix: '0', example: '781234567' },
+  AT: { minLength: 4, maxLength: 13, pattern: /^[1-9]\d{3,12}$/, template: '### ##########', trunkPrefix: '0', example: '6641234567' },
+  PT: { minLength: 9, maxLength: 9, pattern: /^[29]\d{8}$/, template: '### ### ###', example: '912345678' },
+  SE: { minLength: 7, maxLength: 9, pattern: /^[1-9]\d{6,8}$/, template: '##-### ## ##', trunkPrefix: '0', example: '701234567' },
+  NO: { minLength: 8, maxLength: 8, pattern: /^[2-9]\d{7}$/, template: '### ## ###', example: '40612345' },
+  DK: { minLength: 8, maxLength: 8, pattern: /^[2-9]\d{7}$/, template: '## ## ## ##', example: '20123456' },
+  FI: { minLength: 5, maxLength: 12, pattern: /^[1-9]\d{4,11}$/, template: '## ### ####', trunkPrefix: '0', example: '412345678' },
+  PL: { minLength: 9, maxLength: 9, pattern: /^[1-9]\d{8}$/, template: '### ### ###', example: '512345678' },
+  AU: { minLength: 9, maxLength: 9, pattern: /^[2-478]\d{8}$/, template: '### ### ###', trunkPrefix: '0', example: '412345678' },
+  NZ: { minLength: 8, maxLength: 10, pattern: /^[2-9]\d{7,9}$/, template: '## ### ####', trunkPrefix: '0', example: '211234567' },
+  JP: { minLength: 9, maxLength: 10, pattern: /^[1-9]\d{8,9}$/, template: '##-####-####', trunkPrefix: '0', example: '9012345678' },
+  CN: { minLength: 10, maxLength: 11, pattern: /^[1-9]\d{9,10}$/, template: '### #### ####', trunkPrefix: '0', example: '13123456789' },
+  KR: { minLength: 8, maxLength: 10, pattern: /^[1-9]\d{7,9}$/, template: '##-####-####', trunkPrefix: '0', example: '1020000000' },
+  IN: { minLength: 10, maxLength: 10, pattern: /^[1-9]\d{9}$/, template: '##### #####', trunkPrefix: '0', example: '8123456789' },
+  BR: { minLength: 10, maxLength: 11, pattern: /^[1-9]{2}\d{8,9}$/, template: '(##) #####-####', trunkPrefix: '0', example: '11961234567' },
+  MX: { minLength: 10, maxLength: 10, pattern: /^[1-9]\d{9}$/, template: '## #### ####', example: '2221234567' },
+  AR: { minLength: 10, maxLength: 11, pattern: /^[1-9]\d{9,10}$/, template: '## ####-#####', trunkPrefix: '0', example: '1123456789' },
+  ZA: { minLength: 9, maxLength: 9, pattern: /^[1-9]\d{8}$/, template: '## ### ####', trunkPrefix: '0', example: '711234567' },
+  SG: { minLength: 8, maxLength: 8, pattern: /^[3689]\d{7}$/, template: '#### ####', example: '81234567' },
+  HK: { minLength: 8, maxLength: 8, pattern: /^[2-9]\d{7}$/, template: '#### ####', example: '51234567' },
+  AE: { minLength: 8, maxLength: 9, pattern: /^[2-9]\d{7,8}$/, template: '## ### ####', trunkPrefix: '0', example: '501234567' },
+  IL: { minLength: 8, maxLength: 9, pattern: /^[2-9]\d{7,8}$/, template: '##-###-####', trunkPrefix: '0', example: '502345678' },
+  TR: { minLength: 10, maxLength: 10, pattern: /^[2-58]\d{9}$/, template: '### ### ## ##', trunkPrefix: '0', example: '5012345678' },
+  RU: { minLength: 10, maxLength: 10, pattern: /^[3489]\d{9}$/, template: '### ###-##-##', trunkPrefix: '8', example: '9123456789' },
+  KZ: { minLength: 10, maxLength: 10, pattern: /^[67]\d{9}$/, template: '### ###-##-##', trunkPrefix: '8', example: '7710009998' },
+};
+
+export const DEFAULT_PHONE_COUNTRY = 'US';
+
+// E.164 numbers have at most 15 digits, the calling code included
+export function phoneFormat(country: string): PhoneFormat {
+  const code = CALLING_CODES[country] ? country : DEFAULT_PHONE_COUNTRY;
+  const callingCode = CALLING_CODES[code];
+  return PHONE_FORMATS[code]
+    ? { callingCode, ...PHONE_FORMATS[code] }
+    : { callingCode, minLength: 4, maxLength: 15 - callingCode.length };
+}
+
+// Countries using the calling code, the main one first
+export function countriesOfCallingCode(callingCode: string): string[] {
+  const countries = Object.keys(CALLING_CODES).filter((country) => CALLING_CODES[country] === callingCode);
+  const main = MAIN_COUNTRIES[callingCode];
+  return main ? [main, ...countries.filter((country) => country !== main)] : countries;
+}
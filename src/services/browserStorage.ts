@@ -0,0 +1,247 @@
+import { abortError, type ChunkedUploads, type StorageAdapter, type StoredObject, type UploadOptions } from './storage';
+import { checksumError, compositeChecksum, DEFAULT_CHUNK_SIZE, sha256 } from './resumableUpload';
+
+/*
+ * Adapters keeping the files in the browser, for local development and tests. The memory one loses them on
+ * reload, the IndexedDB one keeps them, chunked upload sessions included, so a reload resumes the upload.
+ * Uploads report a simulated progress over uploadDuration milliseconds
+ */
+export interface BrowserStorageOptions {
+  uploadDuration?: number;
+  // Files bigger than a chunk are uploaded in chunks, 5 MB by default
+  chunkSize?: number;
+  // Share of the chunks failing from 0 to 1, to try the retries as on a flaky connection
+  failureRate?: number;
+}
+
+interface StoredBlob {
+  path: string;
+  blob: Blob;
+  updatedAt: string;
+}
+
+// A chunked upload in progress, its chunks are kept in order
+interface ChunkSession {
+  id: string;
+  path: string;
+  size: number;
+  contentType: string;
+  chunks: Blob[];
+}
+
+interface ChunkSessionStore {
+  get: (id: string) => Promise<ChunkSession | undefined>;
+  put: (session: ChunkSession) => Promise<void>;
+  delete: (id: string) => Promise<void>;
+}
+
+const PROGRESS_STEPS = 10;
+
+// Ticks the progress, stopping when the upload is aborted
+function simulateTransfer(duration: number, options: UploadOptions = {}): Promise<void> {
+  const { onProgress, signal } = options;
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError());
+    if (duration <= 0) {
+      onProgress?.(100);
+      return resolve();
+    }
+    let step = 0;
+    const interval = setInterval(() => {
+      step++;
+      onProgress?.(step * 100 / PROGRESS_STEPS);
+      if (step === PROGRESS_STEPS) {
+        clearInterval(interval);
+        resolve();
+      }
+    }, duration / PROGRESS_STEPS);
+    signal?.addEventListener('abort', () => {
+      clearInterval(interval);
+      reject(abortError());
+    }, { once: true });
+  });
+}
+
+function typedBlob(file: Blob, contentType?: string): Blob {
+  return contentType && !file.type ? new Blob([file], { type: contentType }) : file;
+}
+
+const receivedSize = (session: ChunkSession) => session.chunks.reduce((size, chunk) => size + chunk.size, 0);
+
+// The backend side of chunked uploads, checking the chunks and the file like a server would
+function chunkedUploads(sessions: ChunkSessionStore, save: (path: string, blob: Blob) => Promise<string>, options: BrowserStorageOptions): ChunkedUploads {
+  const findSession = async (id: string) => {
+    const session = await sessions.get(id);
+    if (!session) throw new Error(`No upload session "${id}"`);
+    return session;
+  };
+
+  return {
+    chunkSize: options.chunkSize ?? DEFAULT_CHUNK_SIZE,
+    createSession: async (path, size, contentType) => {
+      const id = crypto.randomUUID();
+      await sessions.put({ id, path, size, contentType: contentType || '', chunks: [] });
+      return id;
+    },
+    receivedBytes: async (id) => {
+      const session = await sessions.get(id);
+      return session ? receivedSize(session) : null;
+    },
+    uploadChunk: async (id, offset, chunk, checksum, uploadOptions) => {
+      const session = await findSession(id);
+      const received = receivedSize(session);
+      // The response of a chunk received before was lost, it is not stored twice
+      if (offset < received) return;
+      if (offset > received) throw new Error(`The chunk at ${offset} was sent before the one at ${received}`);
+      const duration = options.uploadDuration ?? 1000;
+      await simulateTransfer(session.size ? duration * chunk.size / session.size : 0, uploadOptions);
+      if (Math.random() < (options.failureRate ?? 0)) throw new Error('The connection was lost');
+      if (await sha256(chunk) !== checksum) throw new Error('The chunk was corrupted on the way');
+      await sessions.put({ ...session, chunks: [...session.chunks, chunk] });
+    },
+    complete: async (id, checksum) => {
+      const session = await findSession(id);
+      if (receivedSize(session) !== session.size) throw new Error('Some chunks of the file were not received');
+      const chunkChecksums = await Promise.all(session.chunks.map(sha256));
+      if (await compositeChecksum(chunkChecksums) !== checksum) {
+        await sessions.delete(id);
+        throw checksumError();
+      }
+      const url = await save(session.path, typedBlob(new Blob(session.chunks), session.contentType));
+      await sessions.delete(id);
+      return url;
+    },
+  };
+}
+
+function storedObject(stored: StoredBlob): StoredObject {
+  return { path: stored.path, size: stored.blob.size, contentType: stored.blob.type, updatedAt: stored.updatedAt };
+}
+
+// Urls of the stored blobs, created once per path and revoked when the file is replaced or deleted
+function objectUrls() {
+  const urls = new Map<string, string>();
+  return {
+    get: (path: string, blob: Blob) => {
+      if (!urls.has(path)) urls.set(path, URL.createObjectURL(blob));
+      return urls.get(path)!;
+    },
+    revoke: (path: string) => {
+      const url = urls.get(path);
+      if (url) URL.revokeObjectURL(url);
+      urls.delete(path);
+    },
+  };
+}
+
+function notFound(path: string): Error {
+  return new Error(`No file stored at "${path}"`);
+}
+
+export function createMemoryStorageAdapter(options: BrowserStorageOptions = {}): StorageAdapter {
+  const files = new Map<string, StoredBlob>();
+  const sessions = new Map<string, ChunkSession>();
+  const urls = objectUrls();
+
+  const save = async (path: string, blob: Blob) => {
+    urls.revoke(path);
+    files.set(path, { path, blob, updatedAt: new Date().toISOString() });
+    return urls.get(path, blob);
+  };
+
+  return {
+    upload: async (path, file, uploadOptions) => {
+      await simulateTransfer(options.uploadDuration ?? 1000, uploadOptions);
+      return save(path, typedBlob(file, uploadOptions?.contentType));
+    },
+    delete: async (path) => {
+      urls.revoke(path);
+      files.delete(path);
+    },
+    getUrl: async (path) => {
+      const stored = files.get(path);
+      if (!stored) throw notFound(path);
+      return urls.get(path, stored.blob);
+    },
+    list: async (prefix) => [...files.values()].filter((stored) => stored.path.startsWith(prefix)).map(storedObject),
+    chunked: chunkedUploads({
+      get: async (id) => sessions.get(id),
+      put: async (session) => {
+        sessions.set(session.id, session);
+      },
+      delete: async (id) => {
+        sessions.delete(id);
+      },
+    }, save, options),
+  };
+}
+
+const STORE_NAME = 'files';
+const SESSION_STORE_NAME = 'uploadSessions';
+
+function request<T>(idbRequest: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    idbRequest.onsuccess = () => resolve(idbRequest.result);
+    idbRequest.onerror = () => reject(idbRequest.error);
+  });
+}
+
+export function createIndexedDbStorageAdapter(databaseName: string = 'editFormStorage', options: BrowserStorageOptions = {}): StorageAdapter {
+  const urls = objectUrls();
+  let database: Promise<IDBDatabase> | null = null;
+
+  // The database is opened on first use, so creating the adapter works where IndexedDB is missing
+  const store = async (mode: IDBTransactionMode, storeName: string = STORE_NAME): Promise<IDBObjectStore> => {
+    if (!database) {
+      // Version 2 added the upload sessions to the databases created with the files only
+      const openRequest = indexedDB.open(databaseName, 2);
+      openRequest.onupgradeneeded = () => {
+        const upgraded = openRequest.result;
+        if (!upgraded.objectStoreNames.contains(STORE_NAME)) upgraded.createObjectStore(STORE_NAME, { keyPath: 'path' });
+        if (!upgraded.objectStoreNames.contains(SESSION_STORE_NAME)) upgraded.createObjectStore(SESSION_STORE_NAME, { keyPath: 'id' });
+      };
+      // A failed open is not kept, the next call opens the database again
+      database = request(openRequest).catch((error) => {
+        database = null;
+        throw error;
+      });
+    }
+    return (await database).transaction(storeName, mode).objectStore(storeName);
+  };
+
+  const save = async (path: string, blob: Blob) => {
+    const stored: StoredBlob = { path, blob, updatedAt: new Date().toISOString() };
+    await request((await store('readwrite')).put(stored));
+    urls.revoke(path);
+    return urls.get(path, blob);
+  };
+
+  return {
+    upload: async (path, file, uploadOptions) => {
+      await simulateTransfer(options.uploadDuration ?? 1000, uploadOptions);
+      return save(path, typedBlob(file, uploadOptions?.contentType));
+    },
+    delete: async (path) => {
+      await request((await store('readwrite')).delete(path));
+      urls.revoke(path);
+    },
+    getUrl: async (path) => {
+      const stored: StoredBlob | undefined = await request((await store('readonly')).get(path));
+      if (!stored) throw notFound(path);
+      return urls.get(path, stored.blob);
+    },
+    list: async (prefix) => {
+      const stored: StoredBlob[] = await request((await store('readonly')).getAll());
+      return stored.filter((file) => file.path.startsWith(prefix)).map(storedObject);
+    },
+    chunked: chunkedUploads({
+      get: async (id) => request((await store('readonly', SESSION_STORE_NAME)).get(id)),
+      put: async (session) => {
+        await request((await store('readwrite', SESSION_STORE_NAME)).put(session));
+      },
+      delete: async (id) => {
+        await request((await store('readwrite', SESSION_STORE_NAME)).delete(id));
+      },
+    }, save, options),
+  };
+}
@@ -0,0 +1,56 @@
+import { StoredFile } from '../data/common';
+import type { Entity } from '../data/editEntry';
+
+const DRAFT_PREFIX = "editFormDraft:";
+
+export interface FormDraft {
+  savedAt: number;
+  values: Entity;
+  // Files uploaded before the draft was saved, keyed by field name
+  uploads: Record<string, StoredFile>;
+}
+
+// One draft per form and entity, new entities share the "new" draft of their form
+export function draftKey(formId: string, entityId: unknown): string {
+  return DRAFT_PREFIX + formId + ":" + (entityId !== undefined && entityId !== null && entityId !== "" ? String(entityId) : "new");
+}
+
+// Files picked but not uploaded only exist in this tab, they can't be kept in a draft
+function storableValue(_key: string, value: unknown): unknown {
+  if (value instanceof File) return undefined;
+  if (Array.isArray(value)) return value.filter((item) => !(item instanceof File));
+  return value;
+}
+
+// Drafts are best effort: storage can be full or disabled (private mode), the form keeps working without them
+export function saveDraft(key: string, draft: FormDraft): void {
+  try {
+    localStorage.setItem(key, JSON.stringify(draft, storableValue));
+  } catch (error) {
+    console.warn("Could not save the draft", error);
+  }
+}
+
+export function loadDraft(key: string): FormDraft | null {
+  try {
+    const storedDraft = localStorage.getItem(key);
+    if (!storedDraft) return null;
+    const draft = JSON.parse(storedDraft) as FormDraft;
+    const uploads: Record<string, StoredFile> = {};
+    for (const [fieldName, file] of Object.entries(draft.uploads || {})) {
+      uploads[fieldName] = new StoredFile(file);
+    }
+    return { savedAt: draft.savedAt || 0, values: draft.values || {}, uploads };
+  } catch (error) {
+    console.warn("Could not read the draft", error);
+    return null;
+  }
+}
+
+export function clearDraft(key: string): void {
+  try {
+    localStorage.removeItem(key);
+  } catch (error) {
+    console.warn("Could not clear the draft", error);
+  }
+}
@@ -1,53 +1,45 @@
-import { StoredFile, StoredFileState } from '../data/common';
+import {
+  deleteObject, getDownloadURL, getMetadata, listAll, ref, uploadBytesResumable,
+  type FirebaseStorage, type StorageReference,
+} from 'firebase/storage';
+import { abortError, type StorageAdapter, type StoredObject } from './storage';
 
-// Types for the callback functions
-type ProgressCallback = (progress: number) => void;
-type CompletionCallback = (file: StoredFile) => void;
-
-// Return type for the upload task
-interface UploadTask {
-  cancel: () => void;
-}
-
-export const uploadFile = (
-  entityId: string, 
-  fieldName: string, 
-  file: File, 
-  onProgress?: ProgressCallback, 
-  onComplete?: CompletionCallback
-): UploadTask => {
-  const reader = new FileReader();
-  
-  reader.onload = () => {
-    let progress = 0;
-    const progressInterval = setInterval(() => {
-      progress += 10;
-      if (onProgress) onProgress(progress);
-      
-      if (progress >= 100) {
-        clearInterval(progressInterval);
-        
-        // StoredFile object
-        const storedFile = new StoredFile({
-          id: `file-${Date.now()}`,
-          file_name: file.name,
-          file_path: URL.createObjectURL(file),
-          file_size: file.size,
-          content_type: file.type,
-          entity_id: entityId,
-          field_name: fieldName,
-          created_at: new Date().toISOString(),
-          state: StoredFileState.Ready
-        });
-        
-        if (onComplete) onComplete(storedFile);
-      }
-    }, 200);
+/*
+ * Firebase Storage behind the StorageAdapter interface. The app initializes Firebase and passes its storage:
+ * createFirebaseStorageAdapter(getStorage(app))
+ */
+export function createFirebaseStorageAdapter(storage: FirebaseStorage): StorageAdapter {
+  // listAll only returns one level, the folders under the prefix are listed too
+  const listFolder = async (folder: StorageReference): Promise<StorageReference[]> => {
+    const result = await listAll(folder);
+    const nested = await Promise.all(result.prefixes.map(listFolder));
+    return [...result.items, ...nested.flat()];
   };
-  
-  reader.readAsDataURL(file);
-  
+
   return {
-    cancel: () => console.log('Upload cancelled')
+    upload: (path, file, options = {}) => new Promise((resolve, reject) => {
+      const { signal, onProgress } = options;
+      if (signal?.aborted) return reject(abortError());
+      const task = uploadBytesResumable(ref(storage, path), file, options.contentType ? { contentType: options.contentType } : undefined);
+      signal?.addEventListener('abort', () => task.cancel(), { once: true });
+      task.on(
+        'state_changed',
+        (snapshot) => onProgress?.(snapshot.totalBytes ? snapshot.bytesTransferred * 100 / snapshot.totalBytes : 0),
+        // Firebase reports its own error for cancelled uploads, it becomes the AbortError of the interface
+        (error) => reject(signal?.aborted ? abortError() : error),
+        () => getDownloadURL(task.snapshot.ref).then(resolve, reject)
+      );
+    }),
+    delete: (path) => deleteObject(ref(storage, path)),
+    getUrl: (path) => getDownloadURL(ref(storage, path)),
+    list: async (prefix) => {
+      // Prefixes are folders in Firebase, a partial file name lists its folder and filters it
+      const folder = prefix.endsWith('/') || !prefix ? prefix : prefix.slice(0, prefix.lastIndexOf('/') + 1);
+      const items = (await listFolder(ref(storage, folder))).filter((item) => item.fullPath.startsWith(prefix));
+      return Promise.all(items.map(async (item): Promise<StoredObject> => {
+        const metadata = await getMetadata(item);
+        return { path: item.fullPath, size: metadata.size, contentType: metadata.contentType || '', updatedAt: metadata.updated };
+      }));
+    },
   };
-};
+}
@@ -0,0 +1,27 @@
+import type { ValidationRule } from '../data/editEntry';
+
+// User names already in use in the mock backend
+const TAKEN_USER_NAMES = ['admin', 'root', 'bryan', 'test_user'];
+
+// Simulates the latency of a real service so debouncing and cancellation can be tried locally
+const MOCK_LATENCY = 600;
+
+export const isUserNameAvailable = (userName: string, signal?: AbortSignal): Promise<boolean> => {
+  return new Promise((resolve, reject) => {
+    const timeout = setTimeout(() => {
+      resolve(!TAKEN_USER_NAMES.includes(userName.toLowerCase()));
+    }, MOCK_LATENCY);
+
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timeout);
+      reject(new DOMException("Request aborted", "AbortError"));
+    });
+  });
+};
+
+// Ready to use rule for the UserName fields
+export const userNameAvailableRule: ValidationRule = {
+  kind: 'async',
+  fn: (value, _entity, signal) => isUserNameAvailable(String(value), signal),
+  message: "This user name is already taken.",
+};
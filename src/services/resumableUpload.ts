@@ -0,0 +1,162 @@
+import type { ChunkedUploads, UploadOptions } from './storage';
+
+/*
+ * Chunked uploads that survive flaky connections: each chunk is retried with an exponential backoff, and the
+ * session is kept in localStorage so picking the same file again after a reload sends only the missing chunks.
+ * The file checksum is the SHA-256 of the chunk checksums followed by their count, like S3 multipart
+ * checksums, so big files are never read whole in memory
+ */
+export const DEFAULT_CHUNK_SIZE = 5 * 1024 * 1024;
+
+const SESSION_PREFIX = 'resumableUpload:';
+const MAX_RETRY_DELAY = 30000;
+
+export interface ResumableUploadOptions extends UploadOptions {
+  // Retries of a chunk before the upload fails, 5 by default
+  maxRetries?: number;
+  // Delay before the first retry in milliseconds, doubled on each retry, 500 by default
+  retryDelay?: number;
+}
+
+// What is kept between page loads to resume an upload
+interface UploadSession {
+  sessionId: string;
+  path: string;
+  chunkSize: number;
+  checksums: string[];
+}
+
+export function checksumError(): Error {
+  const error = new Error('The uploaded file is corrupted, its checksum does not match');
+  error.name = 'ChecksumError';
+  return error;
+}
+
+export function isChecksumError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'ChecksumError';
+}
+
+export async function sha256(blob: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export async function compositeChecksum(chunkChecksums: string[]): Promise<string> {
+  return `${await sha256(new Blob([chunkChecksums.join('')]))}-${chunkChecksums.length}`;
+}
+
+// Same file picked for the same field of the same entity
+export function resumeKey(entityId: string, fieldName: string, file: File): string {
+  return `${entityId || 'new'}/${fieldName}/${file.name}:${file.size}:${file.lastModified}`;
+}
+
+// Sessions are best effort like the drafts: without localStorage the uploads still work, they only don't resume
+function loadSession(key: string): UploadSession | null {
+  try {
+    const storedSession = localStorage.getItem(SESSION_PREFIX + key);
+    return storedSession ? JSON.parse(storedSession) as UploadSession : null;
+  } catch (error) {
+    console.warn("Could not read the upload session", error);
+    return null;
+  }
+}
+
+function saveSession(key: string, session: UploadSession): void {
+  try {
+    localStorage.setItem(SESSION_PREFIX + key, JSON.stringify(session));
+  } catch (error) {
+    console.warn("Could not save the upload session", error);
+  }
+}
+
+function clearSession(key: string): void {
+  try {
+    localStorage.removeItem(SESSION_PREFIX + key);
+  } catch (error) {
+    console.warn("Could not clear the upload session", error);
+  }
+}
+
+function wait(delay: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timeout = setTimeout(resolve, delay);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timeout);
+      reject(signal.reason);
+    }, { once: true });
+  });
+}
+
+/*
+ * Runs the request again after 1, 2, 4... times the delay, with some jitter so the clients of a server that
+ * went down don't all come back at once. Cancelled uploads and corrupted files are not retried
+ */
+async function withRetries<T>(send: () => Promise<T>, options: ResumableUploadOptions): Promise<T> {
+  const maxRetries = options.maxRetries ?? 5;
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await send();
+    } catch (error) {
+      if (options.signal?.aborted) throw options.signal.reason;
+      if (isChecksumError(error) || attempt >= maxRetries) throw error;
+      const delay = Math.min((options.retryDelay ?? 500) * 2 ** attempt, MAX_RETRY_DELAY);
+      await wait(delay * (0.5 + Math.random() / 2), options.signal);
+    }
+  }
+}
+
+// Uploads the file in chunks and resolves with its path, the one of the resumed session when there is one
+export async function uploadResumable(
+  chunked: ChunkedUploads,
+  key: string,
+  path: string,
+  file: File,
+  options: ResumableUploadOptions = {}
+): Promise<{ path: string; url: string }> {
+  const { onProgress, signal } = options;
+  const savedSession = loadSession(key);
+  let session = savedSession;
+  let received = savedSession ? await withRetries(() => chunked.receivedBytes(savedSession.sessionId), options) : null;
+  if (!session || received === null) {
+    const sessionId = await withRetries(() => chunked.createSession(path, file.size, options.contentType), options);
+    session = { sessionId, path, chunkSize: chunked.chunkSize ?? DEFAULT_CHUNK_SIZE, checksums: [] };
+    received = 0;
+    saveSession(key, session);
+  }
+
+  const { sessionId, chunkSize, checksums } = session;
+  const chunkCount = Math.max(1, Math.ceil(file.size / chunkSize));
+  const reportProgress = (bytes: number) => onProgress?.(file.size ? bytes * 100 / file.size : 100);
+  reportProgress(Math.min(received, file.size));
+
+  for (let index = 0; index < chunkCount; index++) {
+    const offset = index * chunkSize;
+    const chunk = file.slice(offset, offset + chunkSize);
+    // The checksums of the chunks sent before the reload were kept with the session
+    const checksum = checksums[index] ?? await sha256(chunk);
+    if (offset + chunk.size > received) {
+      await withRetries(() => chunked.uploadChunk(sessionId, offset, chunk, checksum, {
+        contentType: options.contentType,
+        signal,
+        onProgress: (progress) => reportProgress(offset + chunk.size * progress / 100),
+      }), options);
+      reportProgress(offset + chunk.size);
+    }
+    if (checksums[index] !== checksum) {
+      checksums[index] = checksum;
+      saveSession(key, session);
+    }
+  }
+
+  const checksum = await compositeChecksum(checksums.slice(0, chunkCount));
+  try {
+    const url = await withRetries(() => chunked.complete(sessionId, checksum), options);
+    clearSession(key);
+    return { path: session.path, url };
+  } catch (error) {
+    // The chunks stored don't make the file, it has to be sent again from the start
+    if (isChecksumError(error)) clearSession(key);
+    throw error;
+  }
+}
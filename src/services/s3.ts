@@ -0,0 +1,99 @@
+import { abortError, type StorageAdapter, type StoredObject } from './storage';
+
+// A request to the bucket, key is empty when listing
+export interface S3Request {
+  method: 'GET' | 'PUT' | 'DELETE';
+  url: string;
+  key: string;
+  contentType?: string;
+}
+
+export interface S3StorageOptions {
+  // Url of the bucket in path style: 'https://s3.us-east-1.amazonaws.com/my-bucket', 'http://localhost:9000/uploads'
+  bucketUrl: string;
+  // Url the files are read from when the bucket or a CDN serves them publicly. Without it the reads are signed
+  publicUrl?: string;
+  /*
+   * Returns the url to send the request to, usually presigned by the app's server, so the keys never reach the
+   * browser. Without it the requests are sent unsigned, for public buckets and local S3 servers
+   */
+  sign?: (request: S3Request) => Promise<string>;
+}
+
+function objectUrl(baseUrl: string, key: string): string {
+  return baseUrl.replace(/\/+$/, '') + '/' + key.split('/').map(encodeURIComponent).join('/');
+}
+
+// PUT with XMLHttpRequest, fetch doesn't report the progress of uploads
+function putWithProgress(url: string, file: Blob, contentType: string | undefined, onProgress?: (progress: number) => void, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError());
+    const xhr = new XMLHttpRequest();
+    xhr.open('PUT', url);
+    if (contentType) xhr.setRequestHeader('Content-Type', contentType);
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) onProgress?.(event.loaded * 100 / event.total);
+    };
+    xhr.onload = () => (xhr.status >= 200 && xhr.status < 300
+      ? resolve()
+      : reject(new Error(`The upload failed with status ${xhr.status}`)));
+    xhr.onerror = () => reject(new Error('The upload failed, please check the connection'));
+    xhr.onabort = () => reject(abortError());
+    signal?.addEventListener('abort', () => xhr.abort(), { once: true });
+    xhr.send(file);
+  });
+}
+
+// The objects of a ListObjectsV2 page and the token of the next one
+function parseListPage(xml: string): { objects: StoredObject[]; nextToken?: string } {
+  const document = new DOMParser().parseFromString(xml, 'application/xml');
+  const text = (element: Element | Document, tag: string) => element.getElementsByTagName(tag)[0]?.textContent || '';
+  const objects = Array.from(document.getElementsByTagName('Contents')).map((contents) => ({
+    path: text(contents, 'Key'),
+    size: Number(text(contents, 'Size')),
+    contentType: '',
+    updatedAt: text(contents, 'LastModified') || undefined,
+  }));
+  return { objects, nextToken: text(document, 'IsTruncated') === 'true' ? text(document, 'NextContinuationToken') : undefined };
+}
+
+// Any S3-compatible bucket (AWS S3, Cloudflare R2, MinIO...) behind the StorageAdapter interface
+export function createS3StorageAdapter(options: S3StorageOptions): StorageAdapter {
+  const sign = (request: S3Request) => (options.sign ? options.sign(request) : Promise.resolve(request.url));
+
+  const send = async (method: 'GET' | 'DELETE', key: string, url: string): Promise<Response> => {
+    const response = await fetch(await sign({ method, url, key }), { method });
+    if (!response.ok) throw new Error(`The storage request failed with status ${response.status}`);
+    return response;
+  };
+
+  const getUrl = async (key: string) => options.publicUrl
+    ? objectUrl(options.publicUrl, key)
+    : sign({ method: 'GET', url: objectUrl(options.bucketUrl, key), key });
+
+  return {
+    upload: async (key, file, uploadOptions = {}) => {
+      const url = objectUrl(options.bucketUrl, key);
+      const signedUrl = await sign({ method: 'PUT', url, key, contentType: uploadOptions.contentType });
+      await putWithProgress(signedUrl, file, uploadOptions.contentType, uploadOptions.onProgress, uploadOptions.signal);
+      return getUrl(key);
+    },
+    delete: async (key) => {
+      await send('DELETE', key, objectUrl(options.bucketUrl, key));
+    },
+    getUrl,
+    list: async (prefix) => {
+      const objects: StoredObject[] = [];
+      let token: string | undefined;
+      do {
+        const query = new URLSearchParams({ 'list-type': '2', prefix });
+        if (token) query.set('continuation-token', token);
+        const response = await send('GET', '', options.bucketUrl.replace(/\/+$/, '') + '/?' + query);
+        const page = parseListPage(await response.text());
+        objects.push(...page.objects);
+        token = page.nextToken;
+      } while (token);
+      return objects;
+    },
+  };
+}
@@ -0,0 +1,115 @@
+import { StoredFile, StoredFileState } from '../data/common';
+import { DEFAULT_CHUNK_SIZE, resumeKey, uploadResumable } from './resumableUpload';
+
+/*
+ * Where the uploaded files are kept. EditForm and FileUpload get the adapter from StorageProvider (or their
+ * storage prop), the app picks one: Firebase Storage, an S3-compatible bucket, or memory/IndexedDB for local
+ * development and tests
+ */
+export interface UploadOptions {
+  contentType?: string;
+  // Called with the progress from 0 to 100
+  onProgress?: (progress: number) => void;
+  // Aborting it stops the transfer, the upload then rejects with an AbortError
+  signal?: AbortSignal;
+}
+
+export interface StoredObject {
+  path: string;
+  size: number;
+  contentType: string;
+  updatedAt?: string;
+}
+
+/*
+ * Uploads sent in chunks to a session the backend keeps, so a failed chunk is sent again instead of the whole
+ * file and an upload resumes after a reload. The checksums are hex SHA-256 digests, see resumableUpload.ts
+ */
+export interface ChunkedUploads {
+  // Size of the chunks the backend accepts, 5 MB by default
+  chunkSize?: number;
+  // Starts a session for the file stored under the path and resolves with its id
+  createSession: (path: string, size: number, contentType?: string) => Promise<string>;
+  // Bytes of the whole chunks received so far, null when the session is unknown or expired
+  receivedBytes: (sessionId: string) => Promise<number | null>;
+  // Rejects when the chunk doesn't match its checksum. A chunk received before is accepted again
+  uploadChunk: (sessionId: string, offset: number, chunk: Blob, checksum: string, options?: UploadOptions) => Promise<void>;
+  // Joins the chunks and resolves with the url of the file, rejects with a ChecksumError when it differs
+  complete: (sessionId: string, checksum: string) => Promise<string>;
+}
+
+export interface StorageAdapter {
+  // Stores the file under the path and resolves with the url it can be read from
+  upload: (path: string, file: Blob, options?: UploadOptions) => Promise<string>;
+  delete: (path: string) => Promise<void>;
+  getUrl: (path: string) => Promise<string>;
+  // Files whose path starts with the prefix
+  list: (prefix: string) => Promise<StoredObject[]>;
+  // Files bigger than a chunk are uploaded in chunks when the adapter supports it
+  chunked?: ChunkedUploads;
+}
+
+export function abortError(): DOMException {
+  return new DOMException('The upload was cancelled', 'AbortError');
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+// Files of an entity are stored under its id and the field, new entities under "new"
+export function storagePath(entityId: string, fieldName: string, fileName: string): string {
+  const safeName = fileName.replace(/[^\w.-]+/g, '_') || 'file';
+  return `${entityId || 'new'}/${fieldName}/${Date.now()}-${safeName}`;
+}
+
+// Types for the callback functions
+type ProgressCallback = (progress: number) => void;
+type CompletionCallback = (file: StoredFile) => void;
+type ErrorCallback = (error: unknown) => void;
+
+// Return type for the upload task
+export interface UploadTask {
+  cancel: () => void;
+}
+
+// Uploads a file of a field through the adapter and describes it as a StoredFile, its id is the storage path
+export const uploadFile = (
+  storage: StorageAdapter,
+  entityId: string,
+  fieldName: string,
+  file: File,
+  onProgress?: ProgressCallback,
+  onComplete?: CompletionCallback,
+  onError?: ErrorCallback
+): UploadTask => {
+  const controller = new AbortController();
+  const options: UploadOptions = { contentType: file.type, onProgress, signal: controller.signal };
+  const chunked = storage.chunked;
+  const upload = chunked && file.size > (chunked.chunkSize ?? DEFAULT_CHUNK_SIZE)
+    // Picking the same file again for the field resumes its upload, even after a reload
+    ? uploadResumable(chunked, resumeKey(entityId, fieldName, file), storagePath(entityId, fieldName, file.name), file, options)
+    : (async () => {
+      const path = storagePath(entityId, fieldName, file.name);
+      return { path, url: await storage.upload(path, file, options) };
+    })();
+
+  upload.then(
+    ({ path, url }) => onComplete?.(new StoredFile({
+      id: path,
+      file_name: file.name,
+      file_path: url,
+      file_size: file.size,
+      content_type: file.type,
+      entity_id: entityId,
+      field_name: fieldName,
+      created_at: new Date().toISOString(),
+      state: StoredFileState.Ready
+    })),
+    (error) => onError?.(error)
+  );
+
+  return {
+    cancel: () => controller.abort()
+  };
+};
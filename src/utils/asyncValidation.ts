@@ -0,0 +1,123 @@
+import type { Entity, Validation, ValidationRule } from '../data/editEntry';
+import { isEmpty, resolveValidations } from './validation';
+import { isAbortError } from '../services/storage';
+
+type AsyncRule = Extract<ValidationRule, { kind: 'async' }>;
+
+const DEFAULT_DEBOUNCE = 400;
+// Error of a field whose check failed, e.g. the service could not be reached
+export const CHECK_FAILED = "Could not check this value, please retry.";
+
+// The async rules of a field
+export function getAsyncRules(validations: Validation[] | undefined): AsyncRule[] {
+  return resolveValidations(validations).filter((rule): rule is AsyncRule => rule.kind === 'async');
+}
+
+function abortError(): DOMException {
+  return new DOMException("Validation cancelled", "AbortError");
+}
+
+/*
+ * Runs the rules one after the other and collects their errors. Rejects only when the signal is aborted,
+ * a rule failing for another reason (network, server) is an error of the field so the user can retry
+ */
+async function runAsyncRules(value: unknown, entity: Entity, rules: AsyncRule[], signal: AbortSignal): Promise<string[]> {
+  const errors: string[] = [];
+  for (const rule of rules) {
+    let result: boolean | string;
+    try {
+      result = await rule.fn(value, entity, signal);
+    } catch (error) {
+      if (signal.aborted || isAbortError(error)) throw abortError();
+      console.warn("Async validation failed", error);
+      errors.push(CHECK_FAILED);
+      continue;
+    }
+    if (signal.aborted) throw abortError();
+    if (typeof result === 'string') {
+      errors.push(result);
+    } else if (!result) {
+      errors.push(rule.message || "Value is invalid.");
+    }
+  }
+  return errors;
+}
+
+interface RunningCheck {
+  value: unknown;
+  controller: AbortController;
+  promise: Promise<string[]>;
+}
+
+/*
+ * Keeps at most one async check per field. A new value cancels the debounce timer and aborts the
+ * check still running for the previous value, so a stale answer never reaches the form
+ */
+export class AsyncValidationRunner {
+  private timers = new Map<string, ReturnType<typeof setTimeout>>();
+  private running = new Map<string, RunningCheck>();
+  private onPendingChange: (attribute: string, isPending: boolean) => void;
+
+  constructor(onPendingChange: (attribute: string, isPending: boolean) => void) {
+    this.onPendingChange = onPendingChange;
+  }
+
+  // Runs the check after the debounce delay. onResult is not called if the check is cancelled, failed checks give an error
+  schedule(attribute: string, value: unknown, entity: Entity, rules: AsyncRule[], onResult: (errors: string[]) => void): void {
+    this.cancel(attribute);
+    if (isEmpty(value) || !rules.length) return;
+
+    const delay = Math.max(...rules.map((rule) => rule.debounce ?? DEFAULT_DEBOUNCE));
+    this.onPendingChange(attribute, true);
+    this.timers.set(attribute, setTimeout(() => {
+      this.timers.delete(attribute);
+      this.run(attribute, value, entity, rules).then(onResult, (error) => {
+        if (!isAbortError(error)) onResult([CHECK_FAILED]);
+      });
+    }, delay));
+  }
+
+  // Runs the check now. A check already running for the same value is reused
+  run(attribute: string, value: unknown, entity: Entity, rules: AsyncRule[]): Promise<string[]> {
+    const timer = this.timers.get(attribute);
+    if (timer) {
+      clearTimeout(timer);
+      this.timers.delete(attribute);
+    }
+    const current = this.running.get(attribute);
+    if (current && current.value === value) return current.promise;
+    current?.controller.abort();
+    if (isEmpty(value) || !rules.length) {
+      this.running.delete(attribute);
+      this.onPendingChange(attribute, false);
+      return Promise.resolve([]);
+    }
+
+    const controller = new AbortController();
+    this.onPendingChange(attribute, true);
+    const promise = runAsyncRules(value, entity, rules, controller.signal).finally(() => {
+      // Only the latest check of the field clears the pending state
+      if (this.running.get(attribute)?.controller === controller) {
+        this.running.delete(attribute);
+        this.onPendingChange(attribute, false);
+      }
+    });
+    this.running.set(attribute, { value, controller, promise });
+    return promise;
+  }
+
+  cancel(attribute: string): void {
+    const timer = this.timers.get(attribute);
+    if (timer) clearTimeout(timer);
+    this.timers.delete(attribute);
+    this.running.get(attribute)?.controller.abort();
+    this.running.delete(attribute);
+    this.onPendingChange(attribute, false);
+  }
+
+  cancelAll(): void {
+    for (const attribute of new Set([...this.timers.keys(), ...this.running.keys()])) {
+      this.cancel(attribute);
+    }
+  }
+}
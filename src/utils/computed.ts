@@ -0,0 +1,75 @@
+import type { EditEntry, Entity } from '../data/editEntry';
+import { evaluateFormula, formulaDependencies, parseFormula } from './formula';
+
+export interface ComputedEntry {
+  attribute: string;
+  dependencies: string[];
+  compute: (entity: Entity) => unknown;
+}
+
+// The formula or function of an entry, with the fields it reads
+function compileEntry(editEntry: EditEntry): ComputedEntry {
+  const { compute } = editEntry;
+  if (typeof compute === 'function') {
+    return { attribute: editEntry.attribute, dependencies: editEntry.dependsOn || [], compute };
+  }
+  let formula;
+  try {
+    formula = parseFormula(compute || '');
+  } catch (error) {
+    throw new Error(`Invalid formula for "${editEntry.attribute}": ${(error as Error).message}`);
+  }
+  return {
+    attribute: editEntry.attribute,
+    dependencies: formulaDependencies(formula),
+    compute: (entity) => evaluateFormula(formula, entity),
+  };
+}
+
+/*
+ * The computed entries in the order they are computed, each one after the computed fields it reads.
+ * Formulas that can't be parsed and circular dependencies are configuration errors, they throw
+ * as soon as the form is built instead of showing wrong values
+ */
+export function computedEntries(editEntries: EditEntry[]): ComputedEntry[] {
+  const entries = new Map(editEntries.filter((editEntry) => editEntry.compute !== undefined)
+    .map((editEntry) => [editEntry.attribute, compileEntry(editEntry)]));
+  const ordered: ComputedEntry[] = [];
+  const state = new Map<string, 'visiting' | 'done'>();
+
+  const visit = (attribute: string, path: string[]) => {
+    if (state.get(attribute) === 'done') return;
+    if (state.get(attribute) === 'visiting') {
+      const cycle = [...path.slice(path.indexOf(attribute)), attribute];
+      throw new Error(`Circular computed fields: ${cycle.join(' -> ')}`);
+    }
+    state.set(attribute, 'visiting');
+    const entry = entries.get(attribute)!;
+    for (const dependency of entry.dependencies) {
+      if (entries.has(dependency)) visit(dependency, [...path, attribute]);
+    }
+    state.set(attribute, 'done');
+    ordered.push(entry);
+  };
+  entries.forEach((_, attribute) => visit(attribute, []));
+  return ordered;
+}
+
+// The values with the computed fields up to date. The same object is returned when nothing changed
+export function withComputedValues(entries: ComputedEntry[], values: Entity): Entity {
+  let computedValues = values;
+  for (const entry of entries) {
+    let value: unknown;
+    try {
+      value = entry.compute(computedValues);
+    } catch (error) {
+      console.warn(`Could not compute "${entry.attribute}"`, error);
+      value = null;
+    }
+    value = value ?? null;
+    if (Object.is(value, computedValues[entry.attribute])) continue;
+    if (computedValues === values) computedValues = { ...values };
+    computedValues[entry.attribute] = value;
+  }
+  return computedValues;
+}
@@ -0,0 +1,119 @@
+/*
+ * Dates are stored as ISO 8601: '2024-05-01' for dates and UTC instants ('2024-05-01T13:30:00.000Z') for
+ * date-times. Date-times are edited as the wall time of a time zone, '2024-05-01T15:30' in Europe/Paris
+ */
+
+const ISO_DATE = /^(\d{4})-(\d{2})-(\d{2})$/;
+const WALL_TIME = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})/;
+
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+export function browserTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+export function isIsoDate(value: string): boolean {
+  const match = ISO_DATE.exec(value);
+  if (!match) return false;
+  const date = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+  return date.getUTCFullYear() === Number(match[1]) && date.getUTCMonth() === Number(match[2]) - 1 && date.getUTCDate() === Number(match[3]);
+}
+
+// Milliseconds between the wall time of the time zone and UTC at the given instant
+function timeZoneOffset(date: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone, hourCycle: 'h23', year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', second: '2-digit',
+  }).formatToParts(date);
+  const part = (type: string) => Number(parts.find((datePart) => datePart.type === type)?.value);
+  const wallTimeAsUtc = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second'));
+  return wallTimeAsUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+// '2024-05-01T15:30' in the time zone to the UTC instant
+export function wallTimeToIso(wallTime: string, timeZone: string = browserTimeZone()): string {
+  const match = WALL_TIME.exec(wallTime);
+  if (!match) return wallTime;
+  const wallTimeAsUtc = Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]), Number(match[4]), Number(match[5]));
+  let instant = wallTimeAsUtc - timeZoneOffset(new Date(wallTimeAsUtc), timeZone);
+  // Around daylight saving changes the offset of the first guess can be the one of the other side
+  const offset = timeZoneOffset(new Date(instant), timeZone);
+  instant = wallTimeAsUtc - offset;
+  return new Date(instant).toISOString();
+}
+
+// UTC instant to '2024-05-01T15:30' in the time zone
+export function isoToWallTime(iso: string, timeZone: string = browserTimeZone()): string {
+  const date = new Date(iso);
+  if (isNaN(date.getTime())) return '';
+  return new Date(date.getTime() + timeZoneOffset(date, timeZone)).toISOString().slice(0, 16);
+}
+
+/*
+ * Stored forms of the values found in entities, which come in many formats ('05/01/2024', timestamps...).
+ * They return null when the value can't be read as a date, so validation reports it
+ */
+export function toIsoDate(value: unknown): string | null {
+  if (typeof value === 'string' && isIsoDate(value)) return value;
+  if (typeof value !== 'string' && typeof value !== 'number' && !(value instanceof Date)) return null;
+  const date = new Date(value);
+  if (isNaN(date.getTime())) return null;
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+export function toIsoDateTime(value: unknown): string | null {
+  if (typeof value !== 'string' && typeof value !== 'number' && !(value instanceof Date)) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+/*
+ * Bounds are ISO dates, wall times of the time zone or instants. They are compared with wall times by their
+ * length, so a date bound includes the whole day
+ */
+function boundWallTime(bound: string, withTime: boolean, timeZone: string): string {
+  if (ISO_DATE.test(bound) || !withTime) return bound.slice(0, 10);
+  return /(Z|[+-]\d{2}:?\d{2})$/.test(bound) ? isoToWallTime(bound, timeZone) : bound.slice(0, 16);
+}
+
+export function formatWallTime(wallTime: string): string {
+  const match = WALL_TIME.exec(wallTime) || ISO_DATE.exec(wallTime);
+  if (!match) return wallTime;
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]), Number(match[4] || 0), Number(match[5] || 0));
+  return match[4] ? date.toLocaleString() : date.toLocaleDateString();
+}
+
+export interface DateConstraints {
+  minDate?: string;
+  maxDate?: string;
+  disabledWeekdays?: number[]; // 0 is Sunday
+}
+
+// Errors of a date (ISO date, or wall time when withTime) against the bounds and weekdays of its entry
+export function dateConstraintErrors(wallTime: string, constraints: DateConstraints, withTime: boolean, timeZone: string): string[] {
+  const errors: string[] = [];
+  if (constraints.minDate) {
+    const min = boundWallTime(constraints.minDate, withTime, timeZone);
+    if (wallTime.slice(0, min.length) < min) errors.push(`Please pick a date on or after ${formatWallTime(min)}.`);
+  }
+  if (constraints.maxDate) {
+    const max = boundWallTime(constraints.maxDate, withTime, timeZone);
+    if (wallTime.slice(0, max.length) > max) errors.push(`Please pick a date on or before ${formatWallTime(max)}.`);
+  }
+  if (constraints.disabledWeekdays?.length) {
+    const match = ISO_DATE.exec(wallTime.slice(0, 10));
+    const weekday = match ? new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]))).getUTCDay() : -1;
+    if (constraints.disabledWeekdays.includes(weekday)) errors.push(`${WEEKDAY_NAMES[weekday]}s are not available.`);
+  }
+  return errors;
+}
+
+// Bounds for the min and max attributes of the native inputs
+export function inputBound(bound: string | undefined, withTime: boolean, timeZone: string, endOfDay: boolean): string | undefined {
+  if (!bound) return undefined;
+  const wallTime = boundWallTime(bound, withTime, timeZone);
+  return withTime && wallTime.length === 10 ? wallTime + (endOfDay ? 'T23:59' : 'T00:00') : wallTime;
+}
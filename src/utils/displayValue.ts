@@ -0,0 +1,57 @@
+import { EditEntryType, type EditEntry, type Entity } from '../data/editEntry';
+import { formatNumber, fromMinorUnits } from './numbers';
+import { browserTimeZone, formatWallTime, isIsoDate, isoToWallTime } from './dates';
+
+// Label of an option value, the value itself when the entry has no such option
+function optionLabel(editEntry: EditEntry, value: unknown): string {
+  const option = (editEntry.options || []).find((option) =>
+    typeof option === 'string' ? option === value : option.value === value);
+  if (option === undefined) return String(value);
+  return typeof option === 'string' ? option : option.label;
+}
+
+function dateText(editEntry: EditEntry, value: string, withTime: boolean): string {
+  if (!withTime || isIsoDate(value)) return formatWallTime(value);
+  const wallTime = isoToWallTime(value, editEntry.timeZone || browserTimeZone());
+  return wallTime ? formatWallTime(wallTime) : value;
+}
+
+/*
+ * Text of a stored value the way its field shows it: amounts with their currency, options by their label,
+ * dates in the user's format. Used where a value is shown but not edited (computed fields, review step)
+ */
+export function displayValue(editEntry: EditEntry, value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—';
+  if (editEntry.options) {
+    if (Array.isArray(value)) return value.length ? value.map((item) => optionLabel(editEntry, item)).join(', ') : '—';
+    return optionLabel(editEntry, value);
+  }
+  if (typeof value === 'number') {
+    if (editEntry.type === EditEntryType.Currency) {
+      const currency = editEntry.currency || 'USD';
+      return formatNumber(fromMinorUnits(value, currency), editEntry.locale, currency);
+    }
+    return formatNumber(value, editEntry.locale);
+  }
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (typeof value === 'string') {
+    if (editEntry.type === EditEntryType.DateTime) return dateText(editEntry, value, true);
+    return isIsoDate(value) ? formatWallTime(value) : value;
+  }
+  if (Array.isArray(value)) {
+    if (!value.length) return '—';
+    return value.every((item) => typeof item === 'string' || typeof item === 'number') ? value.join(', ') : `${value.length} items`;
+  }
+  if (typeof value === 'object') {
+    if (editEntry.type === EditEntryType.DateRange) {
+      const range = value as { start?: string; end?: string };
+      const withTime = !!editEntry.withTime;
+      return [range.start, range.end].map((date) => (date ? dateText(editEntry, date, withTime) : '…')).join(' – ');
+    }
+    const filledParts = Object.values(value as Entity).filter((part) => typeof part === 'string' && part);
+    if (filledParts.length) return filledParts.join(', ');
+    const count = Object.keys(value as Entity).length;
+    return count ? `${count} items` : '—';
+  }
+  return String(value);
+}
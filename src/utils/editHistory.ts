@@ -0,0 +1,44 @@
+import type { Entity } from '../data/editEntry';
+
+function isContainer(value: unknown): value is Entity {
+  return typeof value === 'object' && value !== null;
+}
+
+/*
+ * Path of the only text that changed between two values, like "title" in an article or "2" in a TextList.
+ * Returns null when nothing changed, when several parts changed or when the shape changed (a row or a pill added...)
+ */
+export function changedTextPath(previous: unknown, next: unknown, path: string = ""): string | null {
+  // An empty field holds no value until the first character is typed
+  if (previous === undefined || previous === null) previous = typeof next === 'string' ? "" : previous;
+  if (next === undefined || next === null) next = typeof previous === 'string' ? "" : next;
+  if (typeof previous === 'string' && typeof next === 'string') return previous === next ? null : path;
+  if (!isContainer(previous) || !isContainer(next) || Array.isArray(previous) !== Array.isArray(next)) return null;
+
+  const previousParts: Entity = previous;
+  const nextParts: Entity = next;
+  // Rows added or removed change the shape, while an object can get the first text of one of its parts
+  if (Array.isArray(previous) && previousParts.length !== nextParts.length) return null;
+  const keys = [...new Set([...Object.keys(previousParts), ...Object.keys(nextParts)])];
+  const changedKeys = keys.filter((key) => JSON.stringify(previousParts[key]) !== JSON.stringify(nextParts[key]));
+  if (changedKeys.length !== 1) return null;
+  return changedTextPath(previousParts[changedKeys[0]], nextParts[changedKeys[0]], path + "/" + changedKeys[0]);
+}
+
+// True when next is previous with one character typed or deleted. Pastes and replaced photos are not typing
+export function isTypingEdit(previous: string, next: string): boolean {
+  let prefix = 0;
+  while (prefix < previous.length && prefix < next.length && previous[prefix] === next[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < previous.length - prefix && suffix < next.length - prefix &&
+    previous[previous.length - 1 - suffix] === next[next.length - 1 - suffix]
+  ) suffix++;
+  return previous.length - prefix - suffix <= 1 && next.length - prefix - suffix <= 1;
+}
+
+// Reads the text at a path given by changedTextPath
+export function textAt(value: unknown, path: string): string {
+  const text = path.split("/").slice(1).reduce<unknown>((part, key) => isContainer(part) ? part[key] : undefined, value);
+  return typeof text === 'string' ? text : "";
+}
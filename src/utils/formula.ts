@@ -0,0 +1,292 @@
+/*
+ * Small expression language of the computed fields: 'quantity * price', "first_name + ' ' + last_name",
+ * 'slug(title)', 'age(birth_date)'. Expressions are parsed into a tree and evaluated over the values of the
+ * form, they can only read those values and call the functions below, never run code.
+ *
+ * Operators, from the lowest precedence: ?:, ||, &&, == !=, < <= > >=, + -, * / %, the unary ! -, and the
+ * access to the parts of objects (address.city) and arrays (items.length). Arithmetic with an empty value
+ * or an invalid number is empty, so a total stays empty until its operands are filled
+ */
+
+export type FormulaNode =
+  | { type: 'literal'; value: unknown }
+  | { type: 'field'; name: string }
+  | { type: 'member'; object: FormulaNode; property: string }
+  | { type: 'unary'; operator: string; operand: FormulaNode }
+  | { type: 'binary'; operator: string; left: FormulaNode; right: FormulaNode }
+  | { type: 'conditional'; test: FormulaNode; consequent: FormulaNode; alternate: FormulaNode }
+  | { type: 'call'; name: string; args: FormulaNode[] };
+
+interface Token {
+  type: 'number' | 'string' | 'name' | 'operator';
+  value: string;
+  position: number;
+}
+
+const TOKEN_PATTERN = /\s*(?:(\d+(?:\.\d+)?|\.\d+)|'((?:[^'\\]|\\.)*)'|"((?:[^"\\]|\\.)*)"|([A-Za-z_$][\w$]*)|(==|!=|<=|>=|&&|\|\||[-+*/%<>!?:(),.]))/y;
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  TOKEN_PATTERN.lastIndex = 0;
+  while (TOKEN_PATTERN.lastIndex < expression.length) {
+    if (!expression.slice(TOKEN_PATTERN.lastIndex).trim()) break;
+    const position = TOKEN_PATTERN.lastIndex;
+    const match = TOKEN_PATTERN.exec(expression);
+    if (!match) throw new Error(`Unexpected "${expression.slice(position).trim()[0]}" at ${position + 1}`);
+    const [, number, singleQuoted, doubleQuoted, name, operator] = match;
+    if (number !== undefined) tokens.push({ type: 'number', value: number, position });
+    else if (singleQuoted !== undefined || doubleQuoted !== undefined) {
+      tokens.push({ type: 'string', value: (singleQuoted ?? doubleQuoted).replace(/\\(.)/g, '$1'), position });
+    } else if (name !== undefined) tokens.push({ type: 'name', value: name, position });
+    else tokens.push({ type: 'operator', value: operator, position });
+  }
+  return tokens;
+}
+
+const BINARY_PRECEDENCE: string[][] = [['||'], ['&&'], ['==', '!='], ['<', '<=', '>', '>='], ['+', '-'], ['*', '/', '%']];
+
+export function parseFormula(expression: string): FormulaNode {
+  const tokens = tokenize(expression);
+  let index = 0;
+
+  const peek = (value?: string) => {
+    const token = tokens[index];
+    return token && (value === undefined || (token.type === 'operator' && token.value === value)) ? token : undefined;
+  };
+  const expect = (value: string) => {
+    if (!peek(value)) {
+      const token = tokens[index];
+      throw new Error(token ? `Expected "${value}" at ${token.position + 1}` : `Expected "${value}" at the end`);
+    }
+    index++;
+  };
+
+  const parsePrimary = (): FormulaNode => {
+    const token = tokens[index++];
+    if (!token) throw new Error('Unexpected end of the formula');
+    if (token.type === 'number') return { type: 'literal', value: Number(token.value) };
+    if (token.type === 'string') return { type: 'literal', value: token.value };
+    if (token.type === 'name') {
+      if (token.value === 'true' || token.value === 'false') return { type: 'literal', value: token.value === 'true' };
+      if (token.value === 'null') return { type: 'literal', value: null };
+      if (peek('(')) {
+        if (!Object.prototype.hasOwnProperty.call(FUNCTIONS, token.value)) throw new Error(`Unknown function "${token.value}"`);
+        index++;
+        const args: FormulaNode[] = [];
+        while (!peek(')')) {
+          args.push(parseConditional());
+          if (!peek(')')) expect(',');
+        }
+        index++;
+        return { type: 'call', name: token.value, args };
+      }
+      return { type: 'field', name: token.value };
+    }
+    if (token.value === '(') {
+      const node = parseConditional();
+      expect(')');
+      return node;
+    }
+    throw new Error(`Unexpected "${token.value}" at ${token.position + 1}`);
+  };
+
+  const parseMember = (): FormulaNode => {
+    let node = parsePrimary();
+    while (peek('.')) {
+      index++;
+      const property = tokens[index++];
+      if (!property || property.type !== 'name') throw new Error('Expected a name after "."');
+      node = { type: 'member', object: node, property: property.value };
+    }
+    return node;
+  };
+
+  const parseUnary = (): FormulaNode => {
+    const operator = peek('!') || peek('-');
+    if (!operator) return parseMember();
+    index++;
+    return { type: 'unary', operator: operator.value, operand: parseUnary() };
+  };
+
+  const parseBinary = (level: number): FormulaNode => {
+    if (level === BINARY_PRECEDENCE.length) return parseUnary();
+    let node = parseBinary(level + 1);
+    let operator: Token | undefined;
+    while ((operator = BINARY_PRECEDENCE[level].map((value) => peek(value)).find(Boolean))) {
+      index++;
+      node = { type: 'binary', operator: operator.value, left: node, right: parseBinary(level + 1) };
+    }
+    return node;
+  };
+
+  function parseConditional(): FormulaNode {
+    const test = parseBinary(0);
+    if (!peek('?')) return test;
+    index++;
+    const consequent = parseConditional();
+    expect(':');
+    return { type: 'conditional', test, consequent, alternate: parseConditional() };
+  }
+
+  const node = parseConditional();
+  if (index < tokens.length) throw new Error(`Unexpected "${tokens[index].value}" at ${tokens[index].position + 1}`);
+  return node;
+}
+
+// Fields read by the formula, by the first part of their path
+export function formulaDependencies(node: FormulaNode): string[] {
+  switch (node.type) {
+    case 'literal':
+      return [];
+    case 'field':
+      return [node.name];
+    case 'member':
+      return formulaDependencies(node.object);
+    case 'unary':
+      return formulaDependencies(node.operand);
+    case 'binary':
+      return [...new Set([...formulaDependencies(node.left), ...formulaDependencies(node.right)])];
+    case 'conditional':
+      return [...new Set([node.test, node.consequent, node.alternate].flatMap(formulaDependencies))];
+    case 'call':
+      return [...new Set(node.args.flatMap(formulaDependencies))];
+  }
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === null || value === undefined || (typeof value === 'string' && !value.trim());
+}
+
+// Numbers of the arithmetic, null when the value is empty or not a number
+function toNumber(value: unknown): number | null {
+  if (isEmpty(value)) return null;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+}
+
+function arithmetic(a: unknown, b: unknown, operation: (a: number, b: number) => number): number | null {
+  const left = toNumber(a);
+  const right = toNumber(b);
+  if (left === null || right === null) return null;
+  const result = operation(left, right);
+  return Number.isFinite(result) ? result : null;
+}
+
+function numeric(value: unknown, operation: (value: number) => number): number | null {
+  const number = toNumber(value);
+  return number === null ? null : operation(number);
+}
+
+function compare(a: unknown, b: unknown): number {
+  const left = toNumber(a);
+  const right = toNumber(b);
+  if (left !== null && right !== null) return left - right;
+  return String(a ?? '').localeCompare(String(b ?? ''));
+}
+
+function text(value: unknown): string {
+  return value === null || value === undefined ? '' : String(value);
+}
+
+// Numbers are equal to their text ('5' == 5), and empty values to each other
+function looselyEqual(a: unknown, b: unknown): boolean {
+  if (isEmpty(a) || isEmpty(b)) return isEmpty(a) && isEmpty(b);
+  const left = toNumber(a);
+  const right = toNumber(b);
+  return left !== null && right !== null ? left === right : String(a) === String(b);
+}
+
+// Completed years from an ISO date to today
+function age(value: unknown): number | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})/.exec(text(value));
+  if (!match) return null;
+  const today = new Date();
+  const [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  const hadBirthday = today.getMonth() + 1 > month || (today.getMonth() + 1 === month && today.getDate() >= day);
+  return today.getFullYear() - year - (hadBirthday ? 0 : 1);
+}
+
+const FUNCTIONS: Record<string, (...args: unknown[]) => unknown> = {
+  round: (value, digits = 0) => {
+    const number = toNumber(value);
+    const factor = 10 ** (toNumber(digits) ?? 0);
+    return number === null ? null : Math.round(number * factor) / factor;
+  },
+  floor: (value) => numeric(value, Math.floor),
+  ceil: (value) => numeric(value, Math.ceil),
+  abs: (value) => numeric(value, Math.abs),
+  min: (...values) => {
+    const numbers = values.map(toNumber).filter((number) => number !== null);
+    return numbers.length ? Math.min(...numbers) : null;
+  },
+  max: (...values) => {
+    const numbers = values.map(toNumber).filter((number) => number !== null);
+    return numbers.length ? Math.max(...numbers) : null;
+  },
+  // Sum of a list, or of a part of its items ("sum(items, 'total')" for the rows of a group)
+  sum: (list, part) => {
+    if (!Array.isArray(list)) return null;
+    const values = typeof part === 'string' ? list.map((item) => (item && typeof item === 'object' ? item[part] : null)) : list;
+    return values.reduce<number>((total, value) => total + (toNumber(value) ?? 0), 0);
+  },
+  count: (value) => (Array.isArray(value) ? value.length : text(value).length),
+  lower: (value) => text(value).toLowerCase(),
+  upper: (value) => text(value).toUpperCase(),
+  trim: (value) => text(value).trim(),
+  slug: (value) => text(value)
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, ''),
+  age: (value) => age(value),
+  today: () => {
+    const today = new Date();
+    return `${today.getFullYear()}-${String(today.getMonth() + 1).padStart(2, '0')}-${String(today.getDate()).padStart(2, '0')}`;
+  },
+};
+
+export function evaluateFormula(node: FormulaNode, entity: Record<string, unknown>): unknown {
+  switch (node.type) {
+    case 'literal':
+      return node.value;
+    case 'field':
+      return entity ? entity[node.name] : undefined;
+    case 'member': {
+      const object = evaluateFormula(node.object, entity);
+      return object && typeof object === 'object' && Object.prototype.hasOwnProperty.call(object, node.property)
+        ? (object as Record<string, unknown>)[node.property]
+        : undefined;
+    }
+    case 'unary': {
+      const operand = evaluateFormula(node.operand, entity);
+      return node.operator === '!' ? !operand : numeric(operand, (value) => -value);
+    }
+    case 'conditional':
+      return evaluateFormula(node.test, entity) ? evaluateFormula(node.consequent, entity) : evaluateFormula(node.alternate, entity);
+    case 'call':
+      return FUNCTIONS[node.name](...node.args.map((arg) => evaluateFormula(arg, entity)));
+    case 'binary': {
+      const left = evaluateFormula(node.left, entity);
+      // The logical operators only evaluate the right side when needed, and return the deciding value
+      if (node.operator === '&&') return left ? evaluateFormula(node.right, entity) : left;
+      if (node.operator === '||') return left || evaluateFormula(node.right, entity);
+      const right = evaluateFormula(node.right, entity);
+      switch (node.operator) {
+        case '+':
+          return typeof left === 'string' || typeof right === 'string' ? text(left) + text(right) : arithmetic(left, right, (a, b) => a + b);
+        case '-': return arithmetic(left, right, (a, b) => a - b);
+        case '*': return arithmetic(left, right, (a, b) => a * b);
+        case '/': return arithmetic(left, right, (a, b) => a / b);
+        case '%': return arithmetic(left, right, (a, b) => a % b);
+        case '==': return looselyEqual(left, right);
+        case '!=': return !looselyEqual(left, right);
+        case '<': return compare(left, right) < 0;
+        case '<=': return compare(left, right) <= 0;
+        case '>': return compare(left, right) > 0;
+        case '>=': return compare(left, right) >= 0;
+      }
+      return null;
+    }
+  }
+}
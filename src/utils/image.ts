@@ -0,0 +1,75 @@
+import type { ImageOptions } from '../data/editEntry';
+
+/*
+ * Images are prepared in a canvas: the browser applies the EXIF orientation when decoding them, and encoding
+ * the canvas again writes the pixels only, so the uploaded file has no EXIF left
+ */
+export type PreparedImageOptions = Required<Omit<ImageOptions, 'aspectRatio'>> & { aspectRatio?: number };
+
+// Part of the image kept, in pixels of the image as displayed (orientation applied)
+export interface CropArea {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const DEFAULT_IMAGE_OPTIONS: PreparedImageOptions = { crop: true, maxDimension: 2048, format: 'webp', quality: 0.85 };
+
+// Options of the entry over the defaults of its field, null when the images are uploaded unchanged
+export function imageOptions(image: ImageOptions | false | undefined, fieldDefaults: ImageOptions = {}): PreparedImageOptions | null {
+  if (image === false) return null;
+  const options = { ...DEFAULT_IMAGE_OPTIONS, ...fieldDefaults, ...image };
+  // Without a ratio there is nothing to crop to
+  return { ...options, crop: options.crop && Boolean(options.aspectRatio) };
+}
+
+// Largest area of the ratio in the middle of the image, the whole image without a ratio
+export function centeredCrop(width: number, height: number, aspectRatio?: number): CropArea {
+  if (!aspectRatio) return { x: 0, y: 0, width, height };
+  const cropWidth = Math.min(width, height * aspectRatio);
+  const cropHeight = cropWidth / aspectRatio;
+  return { x: (width - cropWidth) / 2, y: (height - cropHeight) / 2, width: cropWidth, height: cropHeight };
+}
+
+function canvasToBlob(canvas: HTMLCanvasElement, type: string, quality: number): Promise<Blob | null> {
+  return new Promise((resolve) => canvas.toBlob(resolve, type, quality));
+}
+
+// The same name with the extension of the new format
+function renamed(fileName: string, extension: string): string {
+  const dot = fileName.lastIndexOf('.');
+  return (dot > 0 ? fileName.slice(0, dot) : fileName || 'image') + '.' + extension;
+}
+
+// Crops the image (the centered area of the ratio by default), scales it down and encodes it again
+export async function prepareImage(file: File, options: PreparedImageOptions, crop?: CropArea): Promise<File> {
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  const area = crop ?? centeredCrop(bitmap.width, bitmap.height, options.crop ? options.aspectRatio : undefined);
+  const scale = Math.min(1, options.maxDimension / Math.max(area.width, area.height));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(area.width * scale));
+  canvas.height = Math.max(1, Math.round(area.height * scale));
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('The image could not be drawn');
+  if (options.format === 'jpeg') {
+    // JPEG has no transparency, transparent pixels would turn black
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+  }
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(bitmap, area.x, area.y, area.width, area.height, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  let blob = await canvasToBlob(canvas, `image/${options.format}`, options.quality);
+  // Browsers that can't encode WebP return a PNG, bigger than the original
+  if (!blob || blob.type !== `image/${options.format}`) {
+    context.globalCompositeOperation = 'destination-over';
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    blob = await canvasToBlob(canvas, 'image/jpeg', options.quality);
+  }
+  if (!blob) throw new Error('The image could not be encoded');
+  return new File([blob], renamed(file.name, blob.type === 'image/webp' ? 'webp' : 'jpg'), { type: blob.type, lastModified: Date.now() });
+}
@@ -0,0 +1,388 @@
+/*
+ * Converts a JSON Schema (draft 2020-12) describing an entity into the EditEntry[] used by EditForm.
+ *
+ * UI hints that JSON Schema has no keyword for are read from "x-" extension keywords:
+ *  - x-type: the EditEntryType (or registered custom type) to use instead of the guessed one
+ *  - x-subName, x-subTitle, x-info, x-button, x-characterCount: copied to the EditEntry
+ *  - x-validations: extra validations, ValidationType names or rule objects such as { "kind": "maxLength", "value": 75 }
+ *  - x-patternMessage: error shown when the pattern does not match
+ *  - x-extraParam: copied to EditEntry.extraParam
+ *
+ * Anything that cannot be represented is listed in the returned issues instead of being dropped quietly.
+ */
+import { EditEntryType, ValidationType, type EditEntry, type FieldTypeName, type Validation, type ValidationRule } from '../data/editEntry';
+
+export type JsonSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+export interface JsonSchema {
+  $ref?: string;
+  $defs?: Record<string, JsonSchema>;
+  type?: JsonSchemaType | JsonSchemaType[];
+  title?: string;
+  description?: string;
+  format?: string;
+  enum?: unknown[];
+  const?: unknown;
+  default?: unknown;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  maxLength?: number;
+  minLength?: number;
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  multipleOf?: number;
+  uniqueItems?: boolean;
+  minItems?: number;
+  maxItems?: number;
+  contentMediaType?: string;
+  readOnly?: boolean;
+  // Any other keyword, including the x- extensions
+  [keyword: string]: unknown;
+}
+
+export interface SchemaIssue {
+  // JSON Pointer to the keyword that could not be converted
+  path: string;
+  message: string;
+}
+
+export interface SchemaConversionResult {
+  entries: EditEntry[];
+  issues: SchemaIssue[];
+}
+
+// Keywords that don't change the generated form, so they are not reported
+const IGNORED_KEYWORDS = new Set([
+  '$schema', '$id', '$comment', '$defs', '$anchor', 'title', 'description', 'default', 'examples', 'deprecated',
+  'writeOnly',
+]);
+
+// Keywords handled by the converter for every schema
+const HANDLED_KEYWORDS = new Set([
+  '$ref', 'type', 'format', 'enum', 'maxLength', 'minLength', 'pattern', 'properties', 'required', 'items',
+]);
+
+// Rule kinds that can be written in JSON. Custom rules need a function so they can only be added in code
+const JSON_RULE_KINDS: ValidationRule['kind'][] = ['required', 'maxLength', 'minLength', 'range', 'pattern', 'oneOf'];
+
+// Sub fields stored by the built-in fields made of several inputs
+const ADDRESS_PARTS = ['street_address', 'city', 'province', 'country', 'postal_code'];
+const ARTICLE_PARTS = ['title', 'subtitle', 'content', 'image_url', 'button_text', 'button_link'];
+const SHOWCASE_PARTS = ['title', 'handle', 'url', 'profile_photo_url', 'image_urls'];
+
+// Radio buttons are used for short enums, longer ones become a Select
+const MAX_RADIO_OPTIONS = 4;
+
+class SchemaConverter {
+  issues: SchemaIssue[] = [];
+  private root: JsonSchema;
+
+  constructor(root: JsonSchema) {
+    this.root = root;
+  }
+
+  report(path: string, message: string) {
+    this.issues.push({ path, message });
+  }
+
+  // Resolves local references such as "#/$defs/address". Remote references are not supported
+  resolve(schema: JsonSchema, path: string, seen: Set<string> = new Set()): JsonSchema {
+    if (!schema.$ref) return schema;
+    if (!schema.$ref.startsWith('#')) {
+      this.report(path + '/$ref', `Remote reference "${schema.$ref}" is not supported.`);
+      return {};
+    }
+    if (seen.has(schema.$ref)) {
+      this.report(path + '/$ref', `Circular reference "${schema.$ref}" is not supported.`);
+      return {};
+    }
+    const target = this.lookup(schema.$ref);
+    if (!target) {
+      this.report(path + '/$ref', `Reference "${schema.$ref}" could not be resolved.`);
+      return {};
+    }
+    seen.add(schema.$ref);
+    // Keywords next to $ref apply on top of the referenced schema
+    const siblings: JsonSchema = { ...schema };
+    delete siblings.$ref;
+    return { ...this.resolve(target, path, seen), ...siblings };
+  }
+
+  // Schema a local reference points to, undefined when there is none
+  lookup(ref: string): JsonSchema | undefined {
+    if (!ref.startsWith('#')) return undefined;
+    const target = ref.slice(1).split('/').filter(Boolean).reduce<unknown>((node, token) => {
+      const key = token.replace(/~1/g, '/').replace(/~0/g, '~');
+      return node && typeof node === 'object' ? (node as Record<string, unknown>)[key] : undefined;
+    }, this.root);
+    return target && typeof target === 'object' ? target as JsonSchema : undefined;
+  }
+
+  // First reference of the schema that is already being expanded, the schema would then contain itself
+  repeatedRef(schema: JsonSchema, refs: Set<string>): string | undefined {
+    const chain = new Set<string>();
+    let node: JsonSchema | undefined = schema;
+    while (node?.$ref && !chain.has(node.$ref)) {
+      if (refs.has(node.$ref)) return node.$ref;
+      chain.add(node.$ref);
+      node = this.lookup(node.$ref);
+    }
+    return undefined;
+  }
+
+  // Returns the single non null type of a schema. ["string", "null"] is treated as an optional string
+  schemaType(schema: JsonSchema, path: string): JsonSchemaType | undefined {
+    if (Array.isArray(schema.type)) {
+      const types = schema.type.filter((type) => type !== 'null');
+      if (types.length > 1) {
+        this.report(path + '/type', `Union types (${types.join(', ')}) are not supported, "${types[0]}" was used.`);
+      }
+      return types[0];
+    }
+    if (schema.type) return schema.type;
+    if (schema.enum) return 'string';
+    if (schema.properties) return 'object';
+    if (schema.items) return 'array';
+    return undefined;
+  }
+
+  // Reports every keyword of the schema that the converter did not use
+  reportUnused(schema: JsonSchema, path: string, used: string[] = []) {
+    for (const keyword of Object.keys(schema)) {
+      if (IGNORED_KEYWORDS.has(keyword) || HANDLED_KEYWORDS.has(keyword) || used.includes(keyword)) continue;
+      if (keyword.startsWith('x-')) continue;
+      this.report(`${path}/${keyword}`, `Keyword "${keyword}" is not supported and was ignored.`);
+    }
+  }
+
+  // refs are the references expanded on the way to the schema, each level gets its own copy
+  convertObject(schema: JsonSchema, path: string, refs: Set<string> = new Set()): EditEntry[] {
+    const expanded = new Set(refs);
+    const resolved = this.resolve(schema, path, expanded);
+    if (this.schemaType(resolved, path) !== 'object' || !resolved.properties) {
+      this.report(path, 'The root schema must be an object with properties.');
+      return [];
+    }
+    this.reportUnused(resolved, path);
+    const required = new Set(resolved.required || []);
+    const entries: EditEntry[] = [];
+    for (const [attribute, propertySchema] of Object.entries(resolved.properties)) {
+      const entry = this.convertProperty(attribute, propertySchema, required.has(attribute), `${path}/properties/${attribute}`, expanded);
+      if (entry) entries.push(entry);
+    }
+    return entries;
+  }
+
+  convertProperty(attribute: string, propertySchema: JsonSchema, isRequired: boolean, path: string, refs: Set<string> = new Set()): EditEntry | null {
+    const expanded = new Set(refs);
+    const schema = this.resolve(propertySchema, path, expanded);
+    if (schema.readOnly) {
+      this.report(path + '/readOnly', `"${attribute}" is read only and was left out of the form.`);
+      return null;
+    }
+
+    const entry: EditEntry = {
+      attribute,
+      attributeName: schema.title || humanize(attribute),
+      type: EditEntryType.Text,
+      isRequired,
+    };
+    const validations: Validation[] = [];
+    const used: string[] = [];
+
+    const hintedType = typeof schema['x-type'] === 'string' ? schema['x-type'] as FieldTypeName : undefined;
+    const type = this.schemaType(schema, path);
+
+    switch (type) {
+      case 'string':
+        entry.type = this.stringFieldType(schema, path, validations, used);
+        break;
+      case 'number':
+      case 'integer':
+        entry.type = EditEntryType.Number;
+        validations.push(this.rangeRule(schema, type, path, used));
+        break;
+      case 'boolean':
+        entry.type = EditEntryType.Checkbox;
+        if (isRequired || schema.const === true) {
+          validations.push(ValidationType.CheckboxChecked);
+          used.push('const');
+        }
+        break;
+      case 'array':
+        entry.type = this.arrayFieldType(schema, path, hintedType, used);
+        if (entry.type === EditEntryType.Group && schema.items) {
+          // A row containing its own schema (a tree of nodes) would be a form without end
+          const repeated = this.repeatedRef(schema.items, expanded);
+          if (repeated) {
+            this.report(path + '/items/$ref', `"${attribute}" refers back to "${repeated}", recursive schemas are not supported and it was left out of the form.`);
+            return null;
+          }
+          // Each row is a sub-form built from the item schema
+          entry.fields = this.convertObject(schema.items, path + '/items', expanded);
+          entry.minRows = schema.minItems;
+          entry.maxRows = schema.maxItems;
+          used.push('minItems', 'maxItems');
+        }
+        break;
+      case 'object':
+        entry.type = this.objectFieldType(schema, path, hintedType);
+        used.push('properties', 'required');
+        break;
+      default:
+        if (!hintedType) {
+          this.report(path, `"${attribute}" has no type, it was rendered as Text.`);
+        }
+    }
+
+    if (schema.enum) {
+      entry.options = schema.enum.filter((option) => option !== null).map((option) => String(option));
+      if (entry.type === EditEntryType.Text || entry.type === EditEntryType.Number) {
+        entry.type = entry.options.length <= MAX_RADIO_OPTIONS ? EditEntryType.Radio : EditEntryType.Select;
+      }
+    }
+    if (hintedType) entry.type = hintedType;
+
+    if (typeof schema['x-subName'] === 'string') entry.subName = schema['x-subName'];
+    if (typeof schema['x-subTitle'] === 'string') entry.subTitle = schema['x-subTitle'];
+    if (typeof schema['x-button'] === 'string') entry.button = schema['x-button'];
+    if (typeof schema['x-characterCount'] === 'number') entry.characterCount = schema['x-characterCount'];
+    if ('x-extraParam' in schema) entry.extraParam = schema['x-extraParam'];
+    entry.info = typeof schema['x-info'] === 'string' ? schema['x-info'] : schema.description;
+    if (!entry.info) delete entry.info;
+
+    if (Array.isArray(schema['x-validations'])) {
+      const known = Object.values(ValidationType) as string[];
+      for (const validation of schema['x-validations']) {
+        if (typeof validation === 'string' && known.includes(validation)) {
+          validations.push(validation as ValidationType);
+        } else if (validation && typeof validation === 'object' && JSON_RULE_KINDS.includes(validation.kind)) {
+          validations.push(validation as ValidationRule);
+        } else {
+          this.report(path + '/x-validations', `Unknown validation ${JSON.stringify(validation)}.`);
+        }
+      }
+    }
+    if (validations.length) entry.validations = [...new Set(validations)];
+
+    this.reportUnused(schema, path, used);
+    return entry;
+  }
+
+  stringFieldType(schema: JsonSchema, path: string, validations: Validation[], used: string[]): FieldTypeName {
+    let type: FieldTypeName = EditEntryType.Text;
+    switch (schema.format) {
+      case undefined:
+        break;
+      case 'email':
+      case 'idn-email':
+        validations.push(ValidationType.Email);
+        break;
+      case 'date':
+        type = EditEntryType.Date;
+        break;
+      case 'date-time':
+        type = EditEntryType.DateTime;
+        break;
+      case 'uri':
+      case 'uri-reference':
+      case 'iri':
+        if (schema.contentMediaType && schema.contentMediaType.startsWith('image/')) {
+          type = EditEntryType.Photo;
+          used.push('contentMediaType');
+        }
+        break;
+      default:
+        this.report(path + '/format', `Format "${schema.format}" is not validated.`);
+    }
+
+    if (schema.maxLength !== undefined) {
+      validations.push({ kind: 'maxLength', value: schema.maxLength });
+      if (type === EditEntryType.Text && schema.maxLength > 100) type = EditEntryType.TextArea;
+    }
+    if (schema.minLength !== undefined) {
+      validations.push({ kind: 'minLength', value: schema.minLength });
+    }
+    if (schema.pattern !== undefined) {
+      const message = typeof schema['x-patternMessage'] === 'string' ? schema['x-patternMessage'] : "Format is invalid.";
+      validations.push({ kind: 'pattern', regex: schema.pattern, message });
+    }
+    return type;
+  }
+
+  // Builds the range rule of a number. The exclusive bounds are turned into inclusive ones
+  rangeRule(schema: JsonSchema, type: 'number' | 'integer', path: string, used: string[]): ValidationRule {
+    const rule: ValidationRule = { kind: 'range', min: schema.minimum, max: schema.maximum };
+    if (type === 'integer') rule.decimals = 0;
+    if (schema.exclusiveMinimum !== undefined) {
+      rule.min = type === 'integer' ? Math.floor(schema.exclusiveMinimum) + 1 : schema.exclusiveMinimum;
+      if (type !== 'integer') this.report(path + '/exclusiveMinimum', `The minimum ${schema.exclusiveMinimum} is accepted.`);
+    }
+    if (schema.exclusiveMaximum !== undefined) {
+      rule.max = type === 'integer' ? Math.ceil(schema.exclusiveMaximum) - 1 : schema.exclusiveMaximum;
+      if (type !== 'integer') this.report(path + '/exclusiveMaximum', `The maximum ${schema.exclusiveMaximum} is accepted.`);
+    }
+    if (schema.multipleOf !== undefined) {
+      // Only decimal steps (1, 0.1, 0.01...) are supported, as a number of decimals
+      const decimals = -Math.log10(schema.multipleOf);
+      if (Number.isInteger(decimals) && decimals >= 0) {
+        rule.decimals = decimals;
+      } else {
+        this.report(path + '/multipleOf', `"multipleOf" ${schema.multipleOf} is not supported, only decimal steps (1, 0.1, 0.01...) are.`);
+      }
+    }
+    used.push('minimum', 'maximum', 'exclusiveMinimum', 'exclusiveMaximum', 'multipleOf');
+    return rule;
+  }
+
+  arrayFieldType(schema: JsonSchema, path: string, hintedType: FieldTypeName | undefined, used: string[]): FieldTypeName {
+    const items = schema.items ? this.resolve(schema.items, path + '/items') : undefined;
+    const itemType = items ? this.schemaType(items, path + '/items') : undefined;
+    used.push('uniqueItems');
+    if (hintedType) return hintedType;
+
+    if (itemType === 'string') {
+      if (items!.contentMediaType && items!.contentMediaType.startsWith('image/')) return EditEntryType.FilePhoto;
+      if (items!.contentMediaType) return EditEntryType.File;
+      return schema.uniqueItems ? EditEntryType.PillList : EditEntryType.TextList;
+    }
+    if (itemType === 'object' && items!.properties) return EditEntryType.Group;
+    if (itemType === 'array' && items!.items && this.schemaType(this.resolve(items!.items, path + '/items/items'), path) === 'string') {
+      return EditEntryType.DoubleTextList;
+    }
+    this.report(path + '/items', `Arrays of "${itemType ?? 'unknown'}" items are not supported, the field was rendered as a TextList.`);
+    return EditEntryType.TextList;
+  }
+
+  // Nested objects map onto the built-in fields that store an object
+  objectFieldType(schema: JsonSchema, path: string, hintedType: FieldTypeName | undefined): FieldTypeName {
+    if (hintedType) return hintedType;
+    const keys = Object.keys(schema.properties || {});
+    const matches = (parts: string[]) => keys.length > 0 && keys.every((key) => parts.includes(key));
+    if (matches(ADDRESS_PARTS)) return EditEntryType.Address;
+    if (matches(ARTICLE_PARTS)) return EditEntryType.Article;
+    if (matches(SHOWCASE_PARTS)) return EditEntryType.Showcase;
+    this.report(path + '/properties', `Nested object with properties (${keys.join(', ')}) does not match a field type, set "x-type" to choose one.`);
+    return EditEntryType.Text;
+  }
+}
+
+// "first_name" or "firstName" -> "First Name"
+function humanize(attribute: string): string {
+  return attribute
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .split(/[_\-\s]+/)
+    .filter(Boolean)
+    .map((word) => word[0].toUpperCase() + word.slice(1))
+    .join(' ');
+}
+
+export function jsonSchemaToEditEntries(schema: JsonSchema): SchemaConversionResult {
+  const converter = new SchemaConverter(schema);
+  const entries = converter.convertObject(schema, '#');
+  return { entries, issues: converter.issues };
+}
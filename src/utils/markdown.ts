@@ -0,0 +1,191 @@
+/*
+ * The subset of Markdown written by the rich-text editor: headings (#, ##, ###), bulleted and numbered
+ * lists, paragraphs, **bold**, *italic*, [links](https://...) and ![images](https://...).
+ * It is parsed into a tree that is rendered as React elements, never as HTML
+ */
+
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'bold'; children: MarkdownInline[] }
+  | { type: 'italic'; children: MarkdownInline[] }
+  | { type: 'link'; href: string; children: MarkdownInline[] }
+  | { type: 'image'; src: string; alt: string };
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: 1 | 2 | 3; children: MarkdownInline[] }
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | { type: 'list'; ordered: boolean; items: MarkdownInline[][] };
+
+const INLINE_PATTERN = /\\([\\*_[\]()!#>`-])|!\[([^\]]*)\]\(([^)\s]*)\)|\[([^\]]+)\]\(([^)\s]*)\)|\*\*(.+?)\*\*|\*([^*]+)\*|_([^_]+)_/g;
+const HEADING = /^(#{1,3})\s+(.*)$/;
+const BULLET = /^\s*[-*+]\s+(.*)$/;
+const NUMBERED = /^\s*\d+[.)]\s+(.*)$/;
+
+// Links and images can only point to web pages, mail addresses or paths of this site
+export function isSafeUrl(url: string): boolean {
+  const scheme = /^([a-z][a-z0-9+.-]*):/i.exec(url.trim());
+  return !scheme || ['http', 'https', 'mailto'].includes(scheme[1].toLowerCase());
+}
+
+export function parseInline(text: string): MarkdownInline[] {
+  const nodes: MarkdownInline[] = [];
+  const addText = (value: string) => {
+    if (!value) return;
+    const last = nodes[nodes.length - 1];
+    if (last && last.type === 'text') {
+      last.text += value;
+    } else {
+      nodes.push({ type: 'text', text: value });
+    }
+  };
+
+  let position = 0;
+  for (const match of text.matchAll(INLINE_PATTERN)) {
+    addText(text.slice(position, match.index));
+    position = match.index! + match[0].length;
+    const [, escaped, imageAlt, imageSrc, linkText, linkHref, bold, starItalic, underscoreItalic] = match;
+    if (escaped !== undefined) {
+      addText(escaped);
+    } else if (imageSrc !== undefined) {
+      if (isSafeUrl(imageSrc) && imageSrc) nodes.push({ type: 'image', src: imageSrc, alt: imageAlt });
+    } else if (linkText !== undefined) {
+      if (isSafeUrl(linkHref) && linkHref) {
+        nodes.push({ type: 'link', href: linkHref, children: parseInline(linkText) });
+      } else {
+        nodes.push(...parseInline(linkText));
+      }
+    } else if (bold !== undefined) {
+      nodes.push({ type: 'bold', children: parseInline(bold) });
+    } else {
+      nodes.push({ type: 'italic', children: parseInline(starItalic ?? underscoreItalic) });
+    }
+  }
+  addText(text.slice(position));
+  return nodes;
+}
+
+export function parseMarkdown(markdown: string): MarkdownBlock[] {
+  const blocks: MarkdownBlock[] = [];
+  let paragraph: string[] = [];
+  const closeParagraph = () => {
+    if (paragraph.length) blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n')) });
+    paragraph = [];
+  };
+
+  for (const line of markdown.replace(/\r\n?/g, '\n').split('\n')) {
+    const heading = HEADING.exec(line);
+    const item = BULLET.exec(line) || NUMBERED.exec(line);
+    if (!line.trim()) {
+      closeParagraph();
+    } else if (heading) {
+      closeParagraph();
+      blocks.push({ type: 'heading', level: heading[1].length as 1 | 2 | 3, children: parseInline(heading[2]) });
+    } else if (item) {
+      closeParagraph();
+      const ordered = !BULLET.test(line);
+      const last = blocks[blocks.length - 1];
+      if (last && last.type === 'list' && last.ordered === ordered) {
+        last.items.push(parseInline(item[1]));
+      } else {
+        blocks.push({ type: 'list', ordered, items: [parseInline(item[1])] });
+      }
+    } else {
+      paragraph.push(line.trim());
+    }
+  }
+  closeParagraph();
+  return blocks;
+}
+
+/*
+ * Stored form of the Markdown: HTML tags are dropped, links and images with unsafe urls lose their url,
+ * and blank lines are collapsed
+ */
+export function sanitizeMarkdown(markdown: string): string {
+  return markdown
+    .replace(/\r\n?/g, '\n')
+    .replace(/<\/?[a-z][^>]*>/gi, '')
+    .replace(/(!?)\[([^\]]*)\]\(([^)\s]*)\)/g, (link, bang: string, text: string, url: string) =>
+      isSafeUrl(url) ? link : (bang ? '' : text))
+    .replace(/[ \t]+$/gm, '')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/([\\*_[\]])/g, '\\$1');
+}
+
+function styleOf(element: Element): string {
+  return (element.getAttribute('style') || '').toLowerCase().replace(/\s/g, '');
+}
+
+// Word marks the bullets and numbers of its lists with this style, they are written again as Markdown
+function isWordListMarker(element: Element): boolean {
+  return styleOf(element).includes('mso-list:ignore');
+}
+
+function inlineMarkdown(node: Node): string {
+  if (node.nodeType === Node.TEXT_NODE) return escapeMarkdown((node.textContent || '').replace(/\s+/g, ' '));
+  if (node.nodeType !== Node.ELEMENT_NODE) return '';
+  const element = node as Element;
+  const tag = element.tagName.toLowerCase();
+  if (isWordListMarker(element)) return '';
+  if (tag === 'br') return '\n';
+  if (tag === 'img') {
+    const src = element.getAttribute('src') || '';
+    // Images pasted from Word point to local files, which can't be shown
+    return /^https?:/i.test(src) ? `![${element.getAttribute('alt') || ''}](${src})` : '';
+  }
+
+  const content = Array.from(element.childNodes).map(inlineMarkdown).join('');
+  if (!content.trim()) return content;
+  const style = styleOf(element);
+  if (tag === 'a') {
+    const href = element.getAttribute('href') || '';
+    return href && !href.startsWith('#') && isSafeUrl(href) ? `[${content.trim()}](${href})` : content;
+  }
+  if (tag === 'b' || tag === 'strong' || /font-weight:(bold|[6-9]00)/.test(style)) return `**${content.trim()}**`;
+  if (tag === 'i' || tag === 'em' || style.includes('font-style:italic')) return `*${content.trim()}*`;
+  return content;
+}
+
+function blockMarkdown(node: Node, lines: string[]): void {
+  if (node.nodeType === Node.TEXT_NODE) {
+    const text = inlineMarkdown(node).trim();
+    if (text) lines.push(text, '');
+    return;
+  }
+  if (node.nodeType !== Node.ELEMENT_NODE) return;
+  const element = node as Element;
+  const tag = element.tagName.toLowerCase();
+  // Word adds styles, its own namespaced tags (o:p, v:shape...) and conditional comments
+  if (['style', 'script', 'meta', 'link', 'title', 'head', 'xml'].includes(tag) || tag.includes(':')) return;
+
+  const heading = /^h([1-6])$/.exec(tag);
+  if (heading) {
+    lines.push('#'.repeat(Math.min(3, Number(heading[1]))) + ' ' + inlineMarkdown(element).trim(), '');
+  } else if (tag === 'ul' || tag === 'ol') {
+    Array.from(element.children).filter((child) => child.tagName.toLowerCase() === 'li').forEach((item, i) => {
+      lines.push((tag === 'ol' ? `${i + 1}. ` : '- ') + inlineMarkdown(item).trim());
+    });
+    lines.push('');
+  } else if (tag === 'p' && styleOf(element).includes('mso-list')) {
+    // A paragraph of a Word list, numbered when its marker is a number
+    const marker = Array.from(element.querySelectorAll('span')).find(isWordListMarker)?.textContent?.trim() || '';
+    lines.push((/^\d+[.)]/.test(marker) ? marker.replace(/[.)]$/, '') + '. ' : '- ') + inlineMarkdown(element).trim(), '');
+  } else if (['p', 'div', 'li', 'blockquote', 'pre'].includes(tag) && !element.querySelector('p, div, ul, ol, h1, h2, h3, h4, h5, h6, table')) {
+    const text = inlineMarkdown(element).trim();
+    if (text) lines.push(text, '');
+  } else {
+    element.childNodes.forEach((child) => blockMarkdown(child, lines));
+  }
+}
+
+// Markdown for HTML pasted from Word, Google Docs or web pages. Only the formatting the editor supports is kept
+export function htmlToMarkdown(html: string): string {
+  const document = new DOMParser().parseFromString(html, 'text/html');
+  const lines: string[] = [];
+  document.body.childNodes.forEach((node) => blockMarkdown(node, lines));
+  return sanitizeMarkdown(lines.join('\n'));
+}
@@ -0,0 +1,54 @@
+/*
+ * Numbers are typed in the format of a locale ('1.234,5' in de-DE) and submitted as numbers.
+ * Currency amounts are submitted in minor units: 12.5 USD is 1250, 1200 JPY is 1200
+ */
+
+// Separators of the locale, undefined is the browser's locale
+export function numberSeparators(locale?: string): { group: string; decimal: string } {
+  const parts = new Intl.NumberFormat(locale).formatToParts(12345.6);
+  return {
+    group: parts.find((part) => part.type === 'group')?.value ?? ',',
+    decimal: parts.find((part) => part.type === 'decimal')?.value ?? '.',
+  };
+}
+
+// Reads a number typed in the locale format. Returns null when the text is not a number
+export function parseLocaleNumber(text: string, locale?: string): number | null {
+  const { group, decimal } = numberSeparators(locale);
+  const normalized = text
+    .replace(/\s/g, '')
+    .split(group).join('')
+    .split(decimal).join('.')
+    .replace(/^−/, '-');
+  if (!/^-?(\d+\.?\d*|\.\d+)$/.test(normalized)) return null;
+  return Number(normalized);
+}
+
+// Decimals of the minor unit of a currency, 2 for USD and 0 for JPY
+export function currencyDigits(currency: string): number {
+  return new Intl.NumberFormat('en', { style: 'currency', currency }).resolvedOptions().maximumFractionDigits ?? 2;
+}
+
+// The rounding drops the floating point errors (12.34 * 100 is 1233.9999999999998), not the extra decimals
+export function toMinorUnits(amount: number, currency: string): number {
+  return Number((amount * 10 ** currencyDigits(currency)).toFixed(6));
+}
+
+export function fromMinorUnits(minorUnits: number, currency: string): number {
+  return minorUnits / 10 ** currencyDigits(currency);
+}
+
+// Display of a number, with the currency symbol when there is a currency
+export function formatNumber(value: number, locale?: string, currency?: string): string {
+  return new Intl.NumberFormat(locale, currency ? { style: 'currency', currency } : { maximumFractionDigits: 20 }).format(value);
+}
+
+// Text of a number while it is edited, without group separators
+export function editableNumber(value: number, locale?: string, currency?: string): string {
+  const digits = currency ? currencyDigits(currency) : undefined;
+  return new Intl.NumberFormat(locale, {
+    useGrouping: false,
+    minimumFractionDigits: digits,
+    maximumFractionDigits: digits ?? 20,
+  }).format(value);
+}
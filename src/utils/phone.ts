@@ -0,0 +1,128 @@
+import { CALLING_CODES, countriesOfCallingCode, DEFAULT_PHONE_COUNTRY, phoneFormat, type PhoneFormat } from '../data/phoneFormats';
+
+/*
+ * Phone numbers are edited as a country and the national number typed for it, and submitted in E.164
+ * ('+14155550123'). Numbers stored before, in any format, are read again with the country of the field
+ */
+export interface PhoneInput {
+  country: string;
+  national: string;
+}
+
+const INTERNATIONAL_PREFIX = /^\s*(\+|00)/;
+const CALLING_CODE_VALUES = new Set(Object.values(CALLING_CODES));
+
+function digitsOf(text: string): string {
+  return text.replace(/\D/g, '');
+}
+
+/*
+ * Whether the digits start with the trunk prefix. It is ambiguous where national numbers can start with the
+ * same digit (8 in Russia), there only the numbers too long to be national have it
+ */
+function hasTrunkPrefix(digits: string, format: PhoneFormat): boolean {
+  const { trunkPrefix, pattern, example, maxLength } = format;
+  if (!trunkPrefix || !digits.startsWith(trunkPrefix)) return false;
+  if (digits.length > maxLength) return true;
+  return !!pattern && !!example && !pattern.test(trunkPrefix + example.slice(trunkPrefix.length));
+}
+
+// The national number without its trunk prefix
+function significantNumber(digits: string, format: PhoneFormat): string {
+  return hasTrunkPrefix(digits, format) ? digits.slice(format.trunkPrefix!.length) : digits;
+}
+
+// Writes the digits in the template, the separators after the last digit are only added once it is typed
+function applyTemplate(digits: string, template: string | undefined): string {
+  if (!template || digits.length > template.split('#').length - 1) return digits;
+  let text = '';
+  let position = 0;
+  for (const char of template) {
+    if (position === digits.length) break;
+    text += char === '#' ? digits[position++] : char;
+  }
+  return text;
+}
+
+// The national number as it is written in the country, keeping the trunk prefix when it was typed
+export function formatNational(text: string, country: string): string {
+  const format = phoneFormat(country);
+  const digits = digitsOf(text);
+  if (hasTrunkPrefix(digits, format)) {
+    const number = digits.slice(format.trunkPrefix!.length);
+    return format.trunkPrefix + (number ? ' ' + applyTemplate(number, format.template) : '');
+  }
+  return applyTemplate(digits, format.template);
+}
+
+// The calling code and the rest of the digits of an international number, null while the code is incomplete
+function splitCallingCode(digits: string): { callingCode: string; national: string } | null {
+  for (let length = 1; length <= 3; length++) {
+    const callingCode = digits.slice(0, length);
+    if (CALLING_CODE_VALUES.has(callingCode)) return { callingCode, national: digits.slice(length) };
+  }
+  return null;
+}
+
+// A country of the calling code, the preferred one when it uses it
+function countryOf(callingCode: string, preferredCountry: string): string {
+  return CALLING_CODES[preferredCountry] === callingCode ? preferredCountry : countriesOfCallingCode(callingCode)[0];
+}
+
+/*
+ * Reads a value as a country and a national number: the value held while editing, an E.164 number or a
+ * number stored in any format ('(415) 555-0123', '0044 20 7946 0958'). Numbers without a calling code are
+ * national numbers of the default country
+ */
+export function parsePhone(value: unknown, defaultCountry: string = DEFAULT_PHONE_COUNTRY): PhoneInput {
+  if (value && typeof value === 'object' && typeof (value as PhoneInput).country === 'string') {
+    const input = value as PhoneInput;
+    return { country: input.country, national: typeof input.national === 'string' ? input.national : '' };
+  }
+  const text = typeof value === 'string' || typeof value === 'number' ? String(value) : '';
+  if (!INTERNATIONAL_PREFIX.test(text)) return { country: defaultCountry, national: formatNational(text, defaultCountry) };
+
+  const digits = digitsOf(text.replace(INTERNATIONAL_PREFIX, ''));
+  const parts = splitCallingCode(digits);
+  if (!parts) return { country: defaultCountry, national: '+' + digits };
+  const country = countryOf(parts.callingCode, defaultCountry);
+  return { country, national: formatNational(parts.national, country) };
+}
+
+// E.164 form of the number, empty when no digit was typed
+export function toE164(input: PhoneInput): string {
+  const digits = digitsOf(input.national);
+  if (!digits) return '';
+  // An international number with an unknown calling code is kept as it was typed, so validation reports it
+  if (INTERNATIONAL_PREFIX.test(input.national)) return '+' + digits;
+  const format = phoneFormat(input.country);
+  return '+' + format.callingCode + significantNumber(digits, format);
+}
+
+function matchesFormat(national: string, format: PhoneFormat): boolean {
+  return national.length >= format.minLength && national.length <= format.maxLength && (!format.pattern || format.pattern.test(national));
+}
+
+// Whether the E.164 number is a valid number of one of the countries of its calling code
+export function isValidE164(value: string): boolean {
+  if (!/^\+[1-9]\d{1,14}$/.test(value)) return false;
+  const parts = splitCallingCode(value.slice(1));
+  return !!parts && countriesOfCallingCode(parts.callingCode).some((country) => matchesFormat(parts.national, phoneFormat(country)));
+}
+
+// Phone numbers in any format, read with the default country when they have no calling code
+export function isValidPhoneNumber(value: unknown, defaultCountry: string = DEFAULT_PHONE_COUNTRY): boolean {
+  return isValidE164(toE164(parsePhone(value, defaultCountry)));
+}
+
+// The example number of the country written internationally, '+44 7400 123456'
+export function phoneExample(country: string): string | undefined {
+  const format = phoneFormat(country);
+  return format.example && `+${format.callingCode} ${formatNational(format.example, country)}`;
+}
+
+// The country a submitted number is shown and checked with
+export function phoneCountry(value: string, defaultCountry: string = DEFAULT_PHONE_COUNTRY): string {
+  const parts = splitCallingCode(digitsOf(value));
+  return parts ? countryOf(parts.callingCode, defaultCountry) : defaultCountry;
+}
@@ -0,0 +1,58 @@
+/*
+ * Signatures are kept as the strokes drawn on the pad while editing, so undo, drafts and the form
+ * history work with them like with any other value. They become a PNG only when the form is submitted
+ */
+
+export type SignaturePoint = [number, number];
+
+export interface SignatureDrawing {
+  // Size of the pad the points were drawn on
+  width: number;
+  height: number;
+  strokes: SignaturePoint[][];
+}
+
+export const SIGNATURE_WIDTH = 600;
+export const SIGNATURE_HEIGHT = 200;
+const INK_COLOR = '#111827';
+const INK_WIDTH = 2.5;
+
+export function isSignatureDrawing(value: unknown): value is SignatureDrawing {
+  return !!value && typeof value === 'object' && Array.isArray((value as SignatureDrawing).strokes);
+}
+
+// Draws the strokes on a context scaled to the size of the pad, a single point is drawn as a dot
+export function drawStrokes(context: CanvasRenderingContext2D, strokes: SignaturePoint[][]): void {
+  context.strokeStyle = INK_COLOR;
+  context.fillStyle = INK_COLOR;
+  context.lineWidth = INK_WIDTH;
+  context.lineCap = 'round';
+  context.lineJoin = 'round';
+  for (const stroke of strokes) {
+    if (stroke.length === 1) {
+      context.beginPath();
+      context.arc(stroke[0][0], stroke[0][1], INK_WIDTH / 2, 0, Math.PI * 2);
+      context.fill();
+      continue;
+    }
+    context.beginPath();
+    stroke.forEach(([x, y], i) => (i ? context.lineTo(x, y) : context.moveTo(x, y)));
+    context.stroke();
+  }
+}
+
+// The drawing as a PNG with a transparent background, ready to be uploaded like a photo
+export function signatureToPng(drawing: SignatureDrawing, fileName: string = 'signature.png'): Promise<File> {
+  const canvas = document.createElement('canvas');
+  canvas.width = drawing.width;
+  canvas.height = drawing.height;
+  const context = canvas.getContext('2d');
+  if (context) drawStrokes(context, drawing.strokes);
+  return new Promise((resolve, reject) => canvas.toBlob((blob) => {
+    if (blob) {
+      resolve(new File([blob], fileName, { type: 'image/png' }));
+    } else {
+      reject(new Error('The signature could not be exported'));
+    }
+  }, 'image/png'));
+}
@@ -0,0 +1,136 @@
+import { ValidationType, type EditEntry, type Entity, type Validation, type ValidationRule } from '../data/editEntry';
+import { isValidPhoneNumber } from './phone';
+
+const EMAIL_MESSAGE = "Email format is invalid.";
+const REQUIRED_MESSAGE = "This field is required.";
+
+// Rules behind each ValidationType constant, so the constants keep working as aliases
+const VALIDATION_TYPE_RULES: Record<ValidationType, ValidationRule[]> = {
+  [ValidationType.Email]: [
+    { kind: 'maxLength', value: 100, message: EMAIL_MESSAGE },
+    { kind: 'pattern', regex: /\S+@\S+\.\S+/, message: EMAIL_MESSAGE },
+  ],
+  [ValidationType.PhoneNumber]: [{
+    kind: 'custom',
+    // Any formatting is accepted. Numbers without a calling code are read as numbers of the United States
+    fn: (value) => isValidPhoneNumber(value),
+    message: "Phone number format is invalid.",
+  }],
+  [ValidationType.UserName]: [
+    { kind: 'pattern', regex: /^[a-z0-9_]+$/, message: "User name can only contain \"a~z\", number and \"_\"." },
+  ],
+  [ValidationType.CheckboxChecked]: [{ kind: 'custom', fn: (value) => !!value, message: "Please check the box." }],
+  [ValidationType.RequiredField]: [{ kind: 'required' }],
+  [ValidationType.TextLengthBelow30]: [{ kind: 'maxLength', value: 30 }],
+  [ValidationType.TextLengthBelow50]: [{ kind: 'maxLength', value: 50 }],
+  [ValidationType.TextLengthBelow100]: [{ kind: 'maxLength', value: 100 }],
+  [ValidationType.TextLengthBelow200]: [{ kind: 'maxLength', value: 200 }],
+  [ValidationType.TextLengthBelow300]: [{ kind: 'maxLength', value: 300 }],
+  [ValidationType.TextLengthBelow400]: [{ kind: 'maxLength', value: 400 }],
+  [ValidationType.Number]: [{ kind: 'range', min: 1, max: 999 }],
+  [ValidationType.Price]: [{ kind: 'range', min: 0.01, max: 9999, decimals: 2 }],
+};
+
+// Turns the validations of an entry into rule objects, expanding the ValidationType aliases
+export function resolveValidations(validations: Validation[] = []): ValidationRule[] {
+  return validations.flatMap((validation) =>
+    typeof validation === 'string' ? VALIDATION_TYPE_RULES[validation] || [] : [validation]
+  );
+}
+
+export function isEmpty(value: unknown): boolean {
+  return value === null || value === undefined || (typeof value === 'string' && value.trim() === '');
+}
+
+// Numbers can be typed as text, so both numbers and numeric strings are accepted
+function toNumber(value: unknown): number | null {
+  if (typeof value === 'number') return isNaN(value) ? null : value;
+  if (typeof value === 'string' && /^\d*\.?\d*$/.test(value) && value !== '.') return parseFloat(value);
+  return null;
+}
+
+function countDecimals(value: unknown): number {
+  const parts = String(value).split(".");
+  return parts[1] ? parts[1].length : 0;
+}
+
+function describeRange(min?: number, max?: number): string {
+  if (min !== undefined && max !== undefined) return `Please enter a number between ${min}-${max}`;
+  if (min !== undefined) return `Please enter a number of at least ${min}`;
+  return `Please enter a number up to ${max}`;
+}
+
+/*
+ * Checks a value against a single rule and returns the error message, or null when the value is valid.
+ * Except for required, empty values are valid: isRequired is what makes a field mandatory
+ */
+export function validateRule(value: unknown, rule: ValidationRule, entity: Entity = {}): string | null {
+  if (rule.kind === 'required') {
+    return !value || isEmpty(value) ? rule.message || REQUIRED_MESSAGE : null;
+  }
+  if (isEmpty(value)) return null;
+
+  switch (rule.kind) {
+    case 'maxLength': {
+      const length = Array.isArray(value) ? value.length : String(value).length;
+      return length > rule.value ? rule.message || `Needs to be shorter than ${rule.value} characters` : null;
+    }
+    case 'minLength': {
+      const length = Array.isArray(value) ? value.length : String(value).length;
+      return length < rule.value ? rule.message || `Needs to be at least ${rule.value} characters` : null;
+    }
+    case 'range': {
+      const number = toNumber(value);
+      if (number === null) return rule.message || "Please enter a valid number with only digits or a decimal.";
+      if (rule.decimals !== undefined && countDecimals(value) > rule.decimals) {
+        return rule.message || `Please enter a number with up to ${rule.decimals} decimals.`;
+      }
+      if ((rule.min !== undefined && number < rule.min) || (rule.max !== undefined && number > rule.max)) {
+        return rule.message || describeRange(rule.min, rule.max);
+      }
+      return null;
+    }
+    case 'pattern': {
+      const regex = typeof rule.regex === 'string' ? new RegExp(rule.regex) : rule.regex;
+      return regex.test(String(value)) ? null : rule.message;
+    }
+    case 'oneOf':
+      return rule.values.includes(value) ? null : rule.message || `Please choose one of: ${rule.values.join(", ")}`;
+    case 'custom': {
+      const result = rule.fn(value, entity);
+      if (typeof result === 'string') return result;
+      return result ? null : rule.message || "Value is invalid.";
+    }
+    case 'async':
+      // Async rules are run by AsyncValidationRunner
+      return null;
+  }
+}
+
+/*
+ * Returns the errors of a field: the required check, its validations and the checks of its field type.
+ * Without collectAll only the first error is returned
+ */
+export function validateEntry(
+  editEntry: EditEntry,
+  value: unknown,
+  entity: Entity,
+  fieldTypeValidate?: (value: unknown, editEntry: EditEntry) => string[],
+  collectAll: boolean = true,
+): string[] {
+  const errors: string[] = [];
+  if (editEntry.isRequired && !value) {
+    errors.push(REQUIRED_MESSAGE);
+  }
+  for (const rule of resolveValidations(editEntry.validations)) {
+    if (errors.length && !collectAll) return errors;
+    const error = validateRule(value, rule, entity);
+    if (error) errors.push(error);
+  }
+  if (fieldTypeValidate && (collectAll || !errors.length)) {
+    errors.push(...fieldTypeValidate(value, editEntry));
+  }
+  // isRequired and a required rule give the same message
+  const uniqueErrors = [...new Set(errors)];
+  return collectAll ? uniqueErrors : uniqueErrors.slice(0, 1);
+}
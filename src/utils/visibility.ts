@@ -0,0 +1,43 @@
+import type { EditEntry, Entity, VisibilityRule } from '../data/editEntry';
+
+// Empty strings (after trimming), empty arrays and empty objects count as empty
+function isEmptyValue(value: unknown): boolean {
+  if (value === null || value === undefined) return true;
+  if (typeof value === 'string') return value.trim() === '';
+  if (Array.isArray(value)) return value.length === 0;
+  if (typeof value === 'object') return Object.keys(value).length === 0;
+  return false;
+}
+
+// Arrays and objects are compared by content, so rules can match a PillList or an Address
+function valuesEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (a && b && typeof a === 'object' && typeof b === 'object') {
+    return JSON.stringify(a) === JSON.stringify(b);
+  }
+  return false;
+}
+
+export function evaluateVisibilityRule(rule: VisibilityRule, entity: Entity): boolean {
+  if ('and' in rule) return rule.and.every((subRule) => evaluateVisibilityRule(subRule, entity));
+  if ('or' in rule) return rule.or.some((subRule) => evaluateVisibilityRule(subRule, entity));
+  if ('not' in rule) return !evaluateVisibilityRule(rule.not, entity);
+
+  const value = entity ? entity[rule.field] : undefined;
+  if ('equals' in rule) return valuesEqual(value, rule.equals);
+  if ('notEquals' in rule) return !valuesEqual(value, rule.notEquals);
+  if ('in' in rule) {
+    // For list values (PillList, TextList...) any of the items can match
+    if (Array.isArray(value)) return value.some((item) => rule.in.some((option) => valuesEqual(item, option)));
+    return rule.in.some((option) => valuesEqual(value, option));
+  }
+  if ('empty' in rule) return isEmptyValue(value) === rule.empty;
+  return true;
+}
+
+// A field is shown when its static condition is not false and its visibleWhen rule matches
+export function isEntryVisible(editEntry: EditEntry, entity: Entity): boolean {
+  if (editEntry.condition != null && !editEntry.condition) return false;
+  if (editEntry.visibleWhen) return evaluateVisibilityRule(editEntry.visibleWhen, entity);
+  return true;
+}